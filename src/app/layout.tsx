@@ -1,6 +1,8 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 
+import { AppProviders } from '@/components/app-providers';
+
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -23,7 +25,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className} suppressHydrationWarning>
         <div id="root" className="min-h-screen bg-background font-sans antialiased">
-          {children}
+          <AppProviders>{children}</AppProviders>
         </div>
       </body>
     </html>
@@ -0,0 +1,26 @@
+'use client';
+
+import { useState } from 'react';
+
+import { ConfirmDialog } from '@/components/dialogs/confirm-dialog';
+import { useAutoSave } from '@/hooks/use-autosave';
+import { useCrashRecovery } from '@/hooks/use-crash-recovery';
+import { createAppStorageConfig } from '@/lib/storage/storage-config';
+
+/**
+ * Client-side services of the application shell and the dialogs they open
+ */
+export function AppProviders({ children }: { children: React.ReactNode }) {
+  const [storageConfig] = useState(createAppStorageConfig);
+
+  // Offers to restore a session lost in a crash, then journals unsaved changes
+  useCrashRecovery(storageConfig);
+  useAutoSave(storageConfig);
+
+  return (
+    <>
+      {children}
+      <ConfirmDialog />
+    </>
+  );
+}
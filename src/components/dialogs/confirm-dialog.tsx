@@ -0,0 +1,55 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useUIStore } from '@/stores/ui-store';
+import { type ConfirmDialogData, DialogType } from '@/types/ui';
+
+/**
+ * Renders the DialogType.CONFIRM dialog from the UI store
+ */
+export function ConfirmDialog() {
+  const dialog = useUIStore((state) => state.dialog);
+  const closeDialog = useUIStore((state) => state.closeDialog);
+
+  const open = dialog.open && dialog.type === DialogType.CONFIRM;
+  const data = open ? (dialog.data as ConfirmDialogData | undefined) : undefined;
+
+  return (
+    <Dialog open={open && Boolean(data)} onOpenChange={(isOpen) => !isOpen && closeDialog()}>
+      {data && (
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{data.title}</DialogTitle>
+            <DialogDescription>{data.message}</DialogDescription>
+          </DialogHeader>
+          {data.details && data.details.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-sm">
+              {data.details.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            {data.actions.map((action) => (
+              <Button
+                key={action.label}
+                variant={action.style === 'primary' ? 'default' : 'outline'}
+                onClick={action.action}
+              >
+                {action.label}
+              </Button>
+            ))}
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * React hook running the autosave service for the lifetime of a component
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { AutoSaveService, type AutoSavePreferences } from '@/lib/storage/autosave';
+import { LoadingState } from '@/types/common';
+import type { SaveResult, StorageConfig, StorageOperationStatus } from '@/types/storage';
+
+/**
+ * Autosave the current diagram while the calling component is mounted
+ * @param config Storage configuration; a new object restarts the service
+ * @param preferences User preferences for autosave
+ */
+export function useAutoSave(config: StorageConfig, preferences?: AutoSavePreferences) {
+  const serviceRef = useRef<AutoSaveService | null>(null);
+  const [status, setStatus] = useState<StorageOperationStatus>({
+    operation: 'save',
+    status: LoadingState.IDLE,
+  });
+
+  const autoSave = preferences?.autoSave;
+  const autoSaveInterval = preferences?.autoSaveInterval;
+
+  useEffect(() => {
+    const service = new AutoSaveService({ config });
+    serviceRef.current = service;
+
+    const removeListener = service.onStatusChange(setStatus);
+    service.start();
+
+    return () => {
+      removeListener();
+      service.stop();
+      serviceRef.current = null;
+    };
+  }, [config]);
+
+  useEffect(() => {
+    serviceRef.current?.updatePreferences(
+      autoSave === undefined || autoSaveInterval === undefined
+        ? undefined
+        : { autoSave, autoSaveInterval }
+    );
+  }, [config, autoSave, autoSaveInterval]);
+
+  /** Save immediately, e.g. for a "Save" button */
+  const saveNow = useCallback(
+    (): Promise<SaveResult | null> => serviceRef.current?.flush() ?? Promise.resolve(null),
+    []
+  );
+
+  return { status, saveNow };
+}
@@ -0,0 +1,41 @@
+/**
+ * React hook offering crash recovery on launch and journaling unsaved changes afterwards
+ */
+
+import { useEffect, useState } from 'react';
+
+import {
+  CrashRecoveryJournal,
+  promptCrashRecovery,
+  type RecoveryDecision,
+} from '@/lib/storage/recovery';
+import type { StorageConfig } from '@/types/storage';
+
+/**
+ * Prompt to recover a journaled session once, then journal the current diagram
+ * @param config Storage configuration used to compare against the saved version
+ * @returns The answer to the prompt, or null while it is still open
+ */
+export function useCrashRecovery(config?: StorageConfig): RecoveryDecision | null {
+  const [decision, setDecision] = useState<RecoveryDecision | null>(null);
+
+  useEffect(() => {
+    const journal = new CrashRecoveryJournal();
+    let active = true;
+
+    // Journaling starts only after the prompt so it cannot overwrite the old session
+    void promptCrashRecovery(config).then((result) => {
+      if (active) {
+        setDecision(result);
+        journal.start();
+      }
+    });
+
+    return () => {
+      active = false;
+      journal.stop();
+    };
+  }, [config]);
+
+  return decision;
+}
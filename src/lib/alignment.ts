@@ -0,0 +1,200 @@
+/**
+ * Align, distribute and match size commands
+ * Elements line up by their bounds as drawn, so rotated elements align by what is visible.
+ * Groups and frames with their children move as a whole. Connectors and locked elements
+ * take no part; connectors follow the elements they are attached to.
+ */
+
+import type { ID, Point, Rectangle } from '@/types/common';
+import { type DiagramElement, type ElementTransform, ElementType } from '@/types/elements';
+import { getElementCorners, getPointsBounds } from '@/lib/canvas/geometry';
+import { withFrameChildren } from '@/lib/diagram-operations';
+
+import { getOuterGroupId } from './groups';
+
+/** Edge or center line a selection is aligned on */
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/** Direction in which elements are spread out */
+export type DistributeDirection = 'horizontal' | 'vertical';
+
+/** Size that elements are given in common */
+export type SizeDimension = 'width' | 'height';
+
+type Axis = 'x' | 'y';
+
+const SIZE_KEYS = { x: 'width', y: 'height' } as const;
+
+/** Axis of each alignment and how far along the bounds its line is */
+const ALIGNMENT_LINES: Record<Alignment, { axis: Axis; fraction: number }> = {
+  left: { axis: 'x', fraction: 0 },
+  center: { axis: 'x', fraction: 0.5 },
+  right: { axis: 'x', fraction: 1 },
+  top: { axis: 'y', fraction: 0 },
+  middle: { axis: 'y', fraction: 0.5 },
+  bottom: { axis: 'y', fraction: 1 },
+};
+
+/** Elements that move as one: a group, a frame with its children or a single element */
+interface ArrangeUnit {
+  elements: DiagramElement[];
+  bounds: Rectangle;
+}
+
+function isArrangeable(element: DiagramElement): boolean {
+  return element.type !== ElementType.CONNECTOR && !element.locked;
+}
+
+function getSelectedElements(elements: DiagramElement[], elementIds: ID[]): DiagramElement[] {
+  const idSet = new Set(elementIds);
+  return elements.filter((element) => idSet.has(element.id) && isArrangeable(element));
+}
+
+/**
+ * Units of a selection
+ * A selection inside a group is split by the groups below it, so aligning inside an entered
+ * group works on its members.
+ */
+function getUnits(elements: DiagramElement[], elementIds: ID[]): ArrangeUnit[] {
+  const selected = getSelectedElements(elements, elementIds);
+
+  // Elements in a selected frame move with it instead of on their own
+  const framedIds = withFrameChildren(
+    elements,
+    selected.flatMap((element) => (element.type === ElementType.FRAME ? element.childIds : []))
+  );
+  const [first] = selected;
+  const withinGroupId =
+    first?.groupIds?.find((groupId) =>
+      selected.every((element) => element.groupIds?.includes(groupId))
+    ) ?? null;
+
+  const members = new Map<ID, ID[]>();
+  selected
+    .filter((element) => !framedIds.has(element.id))
+    .forEach((element) => {
+      const key = getOuterGroupId(element, withinGroupId) ?? element.id;
+      members.set(key, [...(members.get(key) ?? []), element.id]);
+    });
+
+  return [...members.values()].map((unitIds) => {
+    const movedIds = withFrameChildren(elements, unitIds);
+    const moved = elements.filter((element) => movedIds.has(element.id) && isArrangeable(element));
+    return { elements: moved, bounds: getPointsBounds(moved.flatMap(getElementCorners)) };
+  });
+}
+
+function getTransform(
+  element: DiagramElement,
+  changes: Partial<ElementTransform>
+): ElementTransform {
+  return {
+    position: { ...element.position },
+    size: { ...element.size },
+    ...(element.rotation !== undefined && { rotation: element.rotation }),
+    ...changes,
+  };
+}
+
+/**
+ * Transforms that move every element of a unit by an offset along an axis
+ */
+function getUnitTransforms(
+  unit: ArrangeUnit,
+  axis: Axis,
+  offset: number
+): [ID, ElementTransform][] {
+  if (offset === 0) {
+    return [];
+  }
+
+  return unit.elements.map((element) => {
+    const position: Point = { ...element.position };
+    position[axis] += offset;
+    return [element.id, getTransform(element, { position })];
+  });
+}
+
+/**
+ * New geometry that lines a selection up on an edge or center line of its bounds
+ * @returns Transforms of the elements that move; empty for fewer than two units
+ */
+export function getAlignTransforms(
+  elements: DiagramElement[],
+  elementIds: ID[],
+  alignment: Alignment
+): Record<ID, ElementTransform> {
+  const units = getUnits(elements, elementIds);
+  if (units.length < 2) {
+    return {};
+  }
+
+  const { axis, fraction } = ALIGNMENT_LINES[alignment];
+  const size = SIZE_KEYS[axis];
+  const bounds = getPointsBounds(units.flatMap((unit) => unit.elements.flatMap(getElementCorners)));
+  const line = bounds[axis] + bounds[size] * fraction;
+
+  return Object.fromEntries(
+    units.flatMap((unit) =>
+      getUnitTransforms(unit, axis, line - (unit.bounds[axis] + unit.bounds[size] * fraction))
+    )
+  );
+}
+
+/**
+ * New geometry that spaces a selection evenly between its outermost units
+ * @returns Transforms of the elements that move; empty for fewer than three units
+ */
+export function getDistributeTransforms(
+  elements: DiagramElement[],
+  elementIds: ID[],
+  direction: DistributeDirection
+): Record<ID, ElementTransform> {
+  const units = getUnits(elements, elementIds);
+  if (units.length < 3) {
+    return {};
+  }
+
+  const axis: Axis = direction === 'horizontal' ? 'x' : 'y';
+  const size = SIZE_KEYS[axis];
+  const ordered = [...units].sort((a, b) => a.bounds[axis] - b.bounds[axis]);
+  const start = Math.min(...ordered.map((unit) => unit.bounds[axis]));
+  const end = Math.max(...ordered.map((unit) => unit.bounds[axis] + unit.bounds[size]));
+  const gap =
+    (end - start - ordered.reduce((total, unit) => total + unit.bounds[size], 0)) /
+    (ordered.length - 1);
+
+  let next = start;
+  return Object.fromEntries(
+    ordered.flatMap((unit) => {
+      const offset = next - unit.bounds[axis];
+      next += unit.bounds[size] + gap;
+      return getUnitTransforms(unit, axis, offset);
+    })
+  );
+}
+
+/**
+ * New geometry that gives every selected element the width or height of the largest one
+ * Elements keep their position, and groups are resized element by element.
+ */
+export function getMatchSizeTransforms(
+  elements: DiagramElement[],
+  elementIds: ID[],
+  dimension: SizeDimension
+): Record<ID, ElementTransform> {
+  const selected = getSelectedElements(elements, elementIds);
+  if (selected.length < 2) {
+    return {};
+  }
+
+  const target = Math.max(...selected.map((element) => element.size[dimension]));
+  return Object.fromEntries(
+    selected
+      .filter((element) => element.size[dimension] !== target)
+      .map((element) => [
+        element.id,
+        getTransform(element, { size: { ...element.size, [dimension]: target } }),
+      ])
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Connection points of sticky notes and shapes
+ * Every note or shape gets one point in the middle of each edge. Generated points are
+ * identified by their side, so they can be laid out again when the element is resized;
+ * any other points are custom and scale with the element instead.
+ */
+
+import type { ConnectionPoint, ID, Size } from '@/types/common';
+import { type ConnectableElement, type DiagramElement, ElementType } from '@/types/elements';
+
+/** Edges of an element, clockwise from the top */
+export const CONNECTION_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+export type ConnectionSide = (typeof CONNECTION_SIDES)[number];
+
+/** Connector end a connection point is used for */
+export type ConnectorEnd = 'start' | 'end';
+
+export function isConnectable(element: DiagramElement): element is ConnectableElement {
+  return element.type === ElementType.STICKY_NOTE || element.type === ElementType.SHAPE;
+}
+
+export function isConnectionSide(id: string): id is ConnectionSide {
+  return (CONNECTION_SIDES as readonly string[]).includes(id);
+}
+
+/**
+ * Offset of the middle of an edge from the element's top-left corner
+ */
+function getSideOffset(side: ConnectionSide, size: Size) {
+  switch (side) {
+    case 'top':
+      return { x: size.width / 2, y: 0 };
+    case 'right':
+      return { x: size.width, y: size.height / 2 };
+    case 'bottom':
+      return { x: size.width / 2, y: size.height };
+    case 'left':
+      return { x: 0, y: size.height / 2 };
+  }
+}
+
+/**
+ * One connection point on each edge of an element
+ * @param types Type per side; sides that are not listed accept both ends
+ */
+export function createConnectionPoints(
+  elementId: ID,
+  size: Size,
+  types: Partial<Record<ConnectionSide, ConnectionPoint['type']>> = {}
+): ConnectionPoint[] {
+  return CONNECTION_SIDES.map((side) => ({
+    id: side,
+    elementId,
+    position: getSideOffset(side, size),
+    type: types[side] ?? 'both',
+  }));
+}
+
+/**
+ * Elements with edge connection points added to the notes and shapes that have none,
+ * e.g. in diagrams saved before points were generated
+ */
+export function withConnectionPoints(elements: DiagramElement[]): DiagramElement[] {
+  return elements.map((element) =>
+    isConnectable(element) && element.connectionPoints.length === 0
+      ? { ...element, connectionPoints: createConnectionPoints(element.id, element.size) }
+      : element
+  );
+}
+
+/**
+ * Connection points of an element at a new size
+ * Edge points move to the middle of their edge; custom points keep their relative place.
+ * An element without points gets the edge points.
+ */
+export function resizeConnectionPoints(element: ConnectableElement, size: Size): ConnectionPoint[] {
+  if (element.connectionPoints.length === 0) {
+    return createConnectionPoints(element.id, size);
+  }
+
+  const scaleX = size.width / (element.size.width || 1);
+  const scaleY = size.height / (element.size.height || 1);
+
+  return element.connectionPoints.map((point) => ({
+    ...point,
+    position: isConnectionSide(point.id)
+      ? getSideOffset(point.id, size)
+      : { x: point.position.x * scaleX, y: point.position.y * scaleY },
+  }));
+}
+
+/**
+ * Whether a connector may start or end at a connection point
+ * Input points only take connector ends, output points only connector starts.
+ */
+export function acceptsConnectorEnd(point: ConnectionPoint, end: ConnectorEnd): boolean {
+  return point.type === 'both' || point.type === (end === 'start' ? 'output' : 'input');
+}
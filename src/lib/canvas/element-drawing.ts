@@ -0,0 +1,568 @@
+/**
+ * Canvas 2D drawing routines for diagram elements
+ * All functions draw in world coordinates; the caller sets up the viewport transform.
+ */
+
+import type { Point, Size } from '@/types/common';
+import type {
+  ArrowStyle,
+  Connector,
+  ConnectorLabel,
+  DiagramElement,
+  Frame,
+  FreehandStroke,
+  Shape,
+  StickyNote,
+  TextElement,
+} from '@/types/elements';
+
+import {
+  type ConnectorPath,
+  distance,
+  flattenConnectorPath,
+  getConnectorPath,
+  getElementBounds,
+  getPointAtPolylineOffset,
+  getRectangleCenter,
+} from './geometry';
+
+/** Inner padding between a sticky note's border and its text */
+export const NOTE_PADDING = 8;
+
+/** Line height as a multiple of the font size */
+const LINE_HEIGHT = 1.2;
+
+/** Font size of frame titles */
+const FRAME_TITLE_SIZE = 14;
+
+/** Padding around connector label text */
+export const LABEL_PADDING = 4;
+
+type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+
+/**
+ * Dash pattern for a stroke style, scaled with the line width
+ */
+export function getLineDash(style: StrokeStyle | undefined, lineWidth: number): number[] {
+  const width = Math.max(lineWidth, 1);
+
+  switch (style) {
+    case 'dashed':
+      return [width * 4, width * 2];
+    case 'dotted':
+      // Zero-length dashes with round caps render as dots
+      return [0, width * 2];
+    default:
+      return [];
+  }
+}
+
+function applyStrokeStyle(
+  ctx: CanvasRenderingContext2D,
+  style: StrokeStyle | undefined,
+  lineWidth: number
+) {
+  ctx.lineWidth = lineWidth;
+  ctx.setLineDash(getLineDash(style, lineWidth));
+  ctx.lineCap = style === 'dotted' ? 'round' : 'butt';
+}
+
+/**
+ * Rotate the context around an element's center and apply its opacity
+ * Must be wrapped in save()/restore().
+ */
+export function applyElementTransform(
+  ctx: CanvasRenderingContext2D,
+  element: DiagramElement,
+  opacity = 1
+) {
+  const rotation = element.rotation ?? 0;
+  if (rotation) {
+    const center = getRectangleCenter(getElementBounds(element));
+    ctx.translate(center.x, center.y);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.translate(-center.x, -center.y);
+  }
+
+  ctx.globalAlpha *= Math.min(Math.max(opacity, 0), 1);
+}
+
+/**
+ * Add a rounded rectangle to the current path
+ */
+export function addRoundedRectPath(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + width - r, y);
+  ctx.arcTo(x + width, y, x + width, y + r, r);
+  ctx.lineTo(x + width, y + height - r);
+  ctx.arcTo(x + width, y + height, x + width - r, y + height, r);
+  ctx.lineTo(x + r, y + height);
+  ctx.arcTo(x, y + height, x, y + height - r, r);
+  ctx.lineTo(x, y + r);
+  ctx.arcTo(x, y, x + r, y, r);
+  ctx.closePath();
+}
+
+/**
+ * Break text into lines that fit a width; explicit line breaks are kept
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+
+    paragraph.split(/(\s+)/).forEach((token) => {
+      const candidate = line + token;
+      if (ctx.measureText(candidate).width <= maxWidth || line.trim() === '') {
+        line = candidate;
+      } else {
+        lines.push(line.trimEnd());
+        line = token.trim() === '' ? '' : token;
+      }
+
+      // A single word wider than the note is broken by character
+      while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+        let fit = line.length - 1;
+        while (fit > 1 && ctx.measureText(line.slice(0, fit)).width > maxWidth) {
+          fit -= 1;
+        }
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    });
+
+    lines.push(line.trimEnd());
+  });
+
+  return lines;
+}
+
+/**
+ * Draw a sticky note with its background, border, shadow and text
+ * @param pixelScale Device pixels per world unit, used for the unscaled shadow
+ */
+export function drawStickyNote(ctx: CanvasRenderingContext2D, note: StickyNote, pixelScale = 1) {
+  const { position, size, style } = note;
+  const borderWidth = style.borderWidth ?? (style.borderColor ? 1 : 0);
+
+  ctx.save();
+  applyElementTransform(ctx, note, style.opacity);
+
+  ctx.beginPath();
+  addRoundedRectPath(ctx, position.x, position.y, size.width, size.height, style.borderRadius ?? 0);
+
+  if (style.shadow) {
+    // Shadow parameters are not affected by the transform, so scale them by hand
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+    ctx.shadowBlur = 8 * pixelScale;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 2 * pixelScale;
+  }
+  ctx.fillStyle = style.backgroundColor;
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+
+  if (borderWidth > 0) {
+    ctx.strokeStyle = style.borderColor ?? '#000000';
+    applyStrokeStyle(ctx, style.borderStyle, borderWidth);
+    ctx.stroke();
+  }
+
+  // Text is clipped to the note
+  ctx.clip();
+  drawElementText(ctx, note);
+
+  ctx.restore();
+}
+
+/**
+ * Add the outline of a shape to the current path
+ */
+function addShapePath(ctx: CanvasRenderingContext2D, shape: Shape) {
+  const { position, size } = shape;
+  const cx = position.x + size.width / 2;
+  const cy = position.y + size.height / 2;
+
+  switch (shape.shape) {
+    case 'ellipse':
+      ctx.ellipse(cx, cy, size.width / 2, size.height / 2, 0, 0, Math.PI * 2);
+      break;
+    case 'diamond':
+      ctx.moveTo(cx, position.y);
+      ctx.lineTo(position.x + size.width, cy);
+      ctx.lineTo(cx, position.y + size.height);
+      ctx.lineTo(position.x, cy);
+      ctx.closePath();
+      break;
+    default:
+      ctx.rect(position.x, position.y, size.width, size.height);
+  }
+}
+
+/**
+ * Draw a rectangle, ellipse or diamond with its text
+ */
+export function drawShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+  const { style } = shape;
+
+  ctx.save();
+  applyElementTransform(ctx, shape, style.opacity);
+
+  ctx.beginPath();
+  addShapePath(ctx, shape);
+  ctx.fillStyle = style.fillColor;
+  ctx.fill();
+
+  if (style.strokeWidth > 0) {
+    ctx.strokeStyle = style.strokeColor;
+    ctx.lineJoin = 'round';
+    applyStrokeStyle(ctx, style.strokeStyle, style.strokeWidth);
+    ctx.stroke();
+  }
+
+  ctx.clip();
+  drawElementText(ctx, shape);
+
+  ctx.restore();
+}
+
+/**
+ * Draw standalone text with its optional background
+ */
+export function drawTextElement(ctx: CanvasRenderingContext2D, text: TextElement) {
+  const { position, size, style } = text;
+
+  ctx.save();
+  applyElementTransform(ctx, text, style.opacity);
+
+  if (style.backgroundColor) {
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fillRect(position.x, position.y, size.width, size.height);
+  }
+  drawElementText(ctx, text);
+
+  ctx.restore();
+}
+
+/**
+ * Draw a frame's background, border and title; the title sits above the frame
+ */
+export function drawFrame(ctx: CanvasRenderingContext2D, frame: Frame) {
+  const { position, size, style } = frame;
+
+  ctx.save();
+  applyElementTransform(ctx, frame, style.opacity);
+
+  ctx.fillStyle = style.backgroundColor;
+  ctx.fillRect(position.x, position.y, size.width, size.height);
+
+  if (style.borderWidth > 0) {
+    ctx.strokeStyle = style.borderColor;
+    applyStrokeStyle(ctx, 'solid', style.borderWidth);
+    ctx.strokeRect(position.x, position.y, size.width, size.height);
+  }
+
+  if (frame.title) {
+    ctx.font = `${FRAME_TITLE_SIZE}px sans-serif`;
+    ctx.fillStyle = style.borderColor;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(frame.title, position.x, position.y - FRAME_TITLE_SIZE / 3);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Draw a freehand stroke
+ */
+export function drawFreehand(ctx: CanvasRenderingContext2D, stroke: FreehandStroke) {
+  const { position, points, style } = stroke;
+  const [first, ...rest] = points;
+  if (!first) {
+    return;
+  }
+
+  ctx.save();
+  applyElementTransform(ctx, stroke, style.opacity);
+
+  ctx.beginPath();
+  ctx.moveTo(position.x + first.x, position.y + first.y);
+  rest.forEach((point) => ctx.lineTo(position.x + point.x, position.y + point.y));
+  ctx.strokeStyle = style.strokeColor;
+  ctx.lineWidth = style.strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+/**
+ * Draw the wrapped text of a note, shape or text element inside its box
+ */
+function drawElementText(ctx: CanvasRenderingContext2D, element: StickyNote | Shape | TextElement) {
+  const { position, size, style, content } = element;
+  if (!content.text) {
+    return;
+  }
+
+  const verticalAlign = 'verticalAlign' in content ? content.verticalAlign : 'top';
+  const fontWeight = 'fontWeight' in content && content.fontWeight === 'bold' ? 'bold ' : '';
+  const innerWidth = Math.max(size.width - NOTE_PADDING * 2, 0);
+  const lineHeight = content.fontSize * LINE_HEIGHT;
+
+  ctx.font = `${fontWeight}${content.fontSize}px ${content.fontFamily}`;
+  ctx.fillStyle = style.textColor;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = content.textAlign;
+
+  const lines = wrapText(ctx, content.text, innerWidth);
+  const textHeight = lines.length * lineHeight;
+
+  let x = position.x + NOTE_PADDING;
+  if (content.textAlign === 'center') {
+    x = position.x + size.width / 2;
+  } else if (content.textAlign === 'right') {
+    x = position.x + size.width - NOTE_PADDING;
+  }
+
+  let y = position.y + NOTE_PADDING;
+  if (verticalAlign === 'middle') {
+    y = position.y + (size.height - textHeight) / 2;
+  } else if (verticalAlign === 'bottom') {
+    y = position.y + size.height - NOTE_PADDING - textHeight;
+  }
+
+  lines.forEach((line, index) => {
+    // Center the glyphs within their line box
+    ctx.fillText(line, x, y + index * lineHeight + (lineHeight - content.fontSize) / 2);
+  });
+}
+
+/**
+ * Length an arrow head takes up along the line
+ */
+function getArrowLength(arrow: ArrowStyle | undefined): number {
+  return !arrow || arrow.type === 'none' ? 0 : arrow.size;
+}
+
+/**
+ * Move a path endpoint towards the given point by a distance
+ */
+function pullBack(from: Point, towards: Point, amount: number): Point {
+  const length = Math.hypot(towards.x - from.x, towards.y - from.y);
+  if (length === 0 || amount === 0) {
+    return from;
+  }
+
+  const ratio = Math.min(amount / length, 1);
+  return { x: from.x + (towards.x - from.x) * ratio, y: from.y + (towards.y - from.y) * ratio };
+}
+
+/**
+ * Neighbouring points that define the direction at each end of a path
+ */
+function getPathEndDirections(path: ConnectorPath): { afterStart: Point; beforeEnd: Point } {
+  switch (path.kind) {
+    case 'line':
+      return { afterStart: path.end, beforeEnd: path.start };
+    case 'quadratic':
+      return { afterStart: path.control, beforeEnd: path.control };
+    case 'cubic':
+      return { afterStart: path.control1, beforeEnd: path.control2 };
+    case 'polyline':
+      return {
+        afterStart: path.points[0] ?? path.end,
+        beforeEnd: path.points[path.points.length - 1] ?? path.start,
+      };
+  }
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, path: ConnectorPath, start: Point, end: Point) {
+  ctx.moveTo(start.x, start.y);
+
+  switch (path.kind) {
+    case 'line':
+      ctx.lineTo(end.x, end.y);
+      break;
+    case 'quadratic':
+      ctx.quadraticCurveTo(path.control.x, path.control.y, end.x, end.y);
+      break;
+    case 'cubic':
+      ctx.bezierCurveTo(
+        path.control1.x,
+        path.control1.y,
+        path.control2.x,
+        path.control2.y,
+        end.x,
+        end.y
+      );
+      break;
+    case 'polyline': {
+      let previous = start;
+      path.points.forEach((corner, index) => {
+        const next = path.points[index + 1] ?? end;
+        // Rounded corners never take more than half of either adjacent segment
+        const radius = Math.min(
+          path.cornerRadius ?? 0,
+          distance(previous, corner) / 2,
+          distance(corner, next) / 2
+        );
+        if (radius > 0) {
+          ctx.arcTo(corner.x, corner.y, next.x, next.y, radius);
+        } else {
+          ctx.lineTo(corner.x, corner.y);
+        }
+        previous = corner;
+      });
+      ctx.lineTo(end.x, end.y);
+      break;
+    }
+  }
+}
+
+/**
+ * Draw an arrow head with its tip at a point
+ * @param from A point before the tip that sets the arrow's direction
+ */
+export function drawArrowHead(
+  ctx: CanvasRenderingContext2D,
+  tip: Point,
+  from: Point,
+  arrow: ArrowStyle,
+  color: string,
+  lineWidth: number
+) {
+  if (arrow.type === 'none') {
+    return;
+  }
+
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const { size } = arrow;
+
+  ctx.save();
+  ctx.translate(tip.x, tip.y);
+  ctx.rotate(angle);
+  ctx.beginPath();
+
+  switch (arrow.type) {
+    case 'triangle':
+      ctx.moveTo(0, 0);
+      ctx.lineTo(-size, size / 2);
+      ctx.lineTo(-size, -size / 2);
+      ctx.closePath();
+      break;
+    case 'diamond':
+      ctx.moveTo(0, 0);
+      ctx.lineTo(-size / 2, size / 3);
+      ctx.lineTo(-size, 0);
+      ctx.lineTo(-size / 2, -size / 3);
+      ctx.closePath();
+      break;
+    case 'circle':
+      ctx.arc(-size / 2, 0, size / 2, 0, Math.PI * 2);
+      break;
+  }
+
+  // Arrow heads are always drawn with a solid outline
+  ctx.setLineDash([]);
+  ctx.lineJoin = 'miter';
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = color;
+  if (arrow.filled) {
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Draw a connector with its arrow heads and label
+ * @param labelPosition Where to center the label; defaults to the label's own offset
+ */
+export function drawConnector(
+  ctx: CanvasRenderingContext2D,
+  connector: Connector,
+  labelPosition?: Point
+) {
+  const { style } = connector;
+  const path = getConnectorPath(connector);
+  const { afterStart, beforeEnd } = getPathEndDirections(path);
+
+  ctx.save();
+  applyElementTransform(ctx, connector, style.opacity);
+
+  // Stop the line at the base of each arrow head so it does not poke through
+  const start = pullBack(path.start, afterStart, getArrowLength(style.arrowStart));
+  const end = pullBack(path.end, beforeEnd, getArrowLength(style.arrowEnd));
+
+  ctx.beginPath();
+  tracePath(ctx, path, start, end);
+  ctx.strokeStyle = style.strokeColor;
+  ctx.lineJoin = 'round';
+  applyStrokeStyle(ctx, style.strokeStyle, style.strokeWidth);
+  ctx.stroke();
+
+  if (style.arrowStart) {
+    drawArrowHead(
+      ctx,
+      path.start,
+      afterStart,
+      style.arrowStart,
+      style.strokeColor,
+      style.strokeWidth
+    );
+  }
+  if (style.arrowEnd) {
+    drawArrowHead(ctx, path.end, beforeEnd, style.arrowEnd, style.strokeColor, style.strokeWidth);
+  }
+
+  if (connector.label?.text) {
+    drawConnectorLabel(
+      ctx,
+      connector.label,
+      labelPosition ?? getPointAtPolylineOffset(flattenConnectorPath(path), connector.label.offset)
+    );
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Size of the box a connector label is drawn in, padding included
+ */
+export function measureConnectorLabel(ctx: CanvasRenderingContext2D, label: ConnectorLabel): Size {
+  ctx.save();
+  ctx.font = `${label.fontSize}px sans-serif`;
+  const { width } = ctx.measureText(label.text);
+  ctx.restore();
+
+  return { width: width + LABEL_PADDING * 2, height: label.fontSize + LABEL_PADDING * 2 };
+}
+
+function drawConnectorLabel(ctx: CanvasRenderingContext2D, label: ConnectorLabel, position: Point) {
+  ctx.font = `${label.fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (label.backgroundColor) {
+    const { width, height } = measureConnectorLabel(ctx, label);
+    ctx.fillStyle = label.backgroundColor;
+    ctx.fillRect(position.x - width / 2, position.y - height / 2, width, height);
+  }
+
+  ctx.fillStyle = label.textColor;
+  ctx.fillText(label.text, position.x, position.y);
+}
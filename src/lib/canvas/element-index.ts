@@ -0,0 +1,55 @@
+/**
+ * Spatial index of the current diagram's elements
+ * The diagram store keeps it in sync after every change, so viewport culling and hit
+ * testing only visit elements near the area of interest.
+ */
+
+import type { ID, Rectangle } from '@/types/common';
+import type { DiagramElement } from '@/types/elements';
+
+import { getRotatedElementBounds } from './geometry';
+import { SpatialIndex } from './spatial-index';
+
+/** Index of the elements of the diagram open in the diagram store */
+export const elementIndex = new SpatialIndex<DiagramElement>();
+
+/**
+ * Replace the index content with a diagram's elements
+ */
+export function rebuildElementIndex(elements: DiagramElement[] = []): void {
+  elementIndex.load(
+    elements.map((element) => ({
+      id: element.id,
+      bounds: getRotatedElementBounds(element),
+      item: element,
+    }))
+  );
+}
+
+/**
+ * Re-index the given elements; IDs no longer present in the diagram are removed
+ */
+export function syncElementIndex(elements: DiagramElement[], elementIds: Iterable<ID>): void {
+  const pending = new Set(elementIds);
+  if (pending.size === 0) {
+    return;
+  }
+
+  for (const element of elements) {
+    if (pending.delete(element.id)) {
+      elementIndex.insert(element.id, getRotatedElementBounds(element), element);
+      if (pending.size === 0) {
+        return;
+      }
+    }
+  }
+
+  pending.forEach((id) => elementIndex.remove(id));
+}
+
+/**
+ * Indexed elements intersecting an area, in no particular order
+ */
+export function queryElementIndex(area: Rectangle): DiagramElement[] {
+  return elementIndex.search(area);
+}
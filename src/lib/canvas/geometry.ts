@@ -0,0 +1,413 @@
+/**
+ * Geometry helpers shared by canvas rendering and interaction
+ * World coordinates map to the screen as `screen = world * zoom + offset`.
+ */
+
+import type { Viewport } from '@/types/canvas';
+import type { Point, Rectangle } from '@/types/common';
+import { type Connector, type DiagramElement, ElementType } from '@/types/elements';
+
+/** Connector path resolved from its endpoints and control points */
+export type ConnectorPath =
+  | { kind: 'line'; start: Point; end: Point }
+  | { kind: 'quadratic'; start: Point; control: Point; end: Point }
+  | { kind: 'cubic'; start: Point; control1: Point; control2: Point; end: Point }
+  | { kind: 'polyline'; start: Point; points: Point[]; end: Point; cornerRadius?: number };
+
+export function worldToScreen(point: Point, viewport: Viewport): Point {
+  return {
+    x: point.x * viewport.zoom + viewport.offset.x,
+    y: point.y * viewport.zoom + viewport.offset.y,
+  };
+}
+
+export function screenToWorld(point: Point, viewport: Viewport): Point {
+  return {
+    x: (point.x - viewport.offset.x) / viewport.zoom,
+    y: (point.y - viewport.offset.y) / viewport.zoom,
+  };
+}
+
+/**
+ * Area of the world shown by a viewport
+ */
+export function getVisibleArea(viewport: Viewport): Rectangle {
+  const topLeft = screenToWorld({ x: 0, y: 0 }, viewport);
+  return {
+    x: topLeft.x,
+    y: topLeft.y,
+    width: viewport.size.width / viewport.zoom,
+    height: viewport.size.height / viewport.zoom,
+  };
+}
+
+/**
+ * Rotate a point around a center
+ * @param degrees Clockwise rotation in degrees (screen coordinates point down)
+ */
+export function rotatePoint(point: Point, center: Point, degrees: number): Point {
+  if (!degrees) {
+    return { x: point.x, y: point.y };
+  }
+
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+export function getRectangleCenter(rect: Rectangle): Point {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/**
+ * Smallest rectangle containing all points
+ */
+export function getPointsBounds(points: Point[]): Rectangle {
+  if (points.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export function rectanglesIntersect(a: Rectangle, b: Rectangle): boolean {
+  return (
+    a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height
+  );
+}
+
+export function rectangleContainsPoint(rect: Rectangle, point: Point): boolean {
+  return (
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+  );
+}
+
+export function rectangleContainsRectangle(outer: Rectangle, inner: Rectangle): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * Rectangle spanned by two opposite corners
+ */
+export function getRectangleFromPoints(a: Point, b: Point): Rectangle {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+export function expandRectangle(rect: Rectangle, amount: number): Rectangle {
+  return {
+    x: rect.x - amount,
+    y: rect.y - amount,
+    width: rect.width + amount * 2,
+    height: rect.height + amount * 2,
+  };
+}
+
+/**
+ * Resolve the drawn path of a connector
+ * Straight connectors ignore their points and orthogonal ones pass through them. Otherwise
+ * one control point makes a quadratic curve and two make a cubic bezier; with more points
+ * the connector is drawn as a polyline through them.
+ */
+export function getConnectorPath(connector: Connector): ConnectorPath {
+  const start = connector.startElement.position;
+  const end = connector.endElement.position;
+  const { points, routing } = connector;
+  const [first, second] = points;
+
+  if (routing === 'straight') {
+    return { kind: 'line', start, end };
+  }
+  if (routing === 'orthogonal') {
+    const { cornerRadius } = connector.style;
+    return { kind: 'polyline', start, points, end, ...(cornerRadius && { cornerRadius }) };
+  }
+
+  if (points.length === 1 && first) {
+    return { kind: 'quadratic', start, control: first, end };
+  }
+  if (points.length === 2 && first && second) {
+    return { kind: 'cubic', start, control1: first, control2: second, end };
+  }
+  if (points.length > 2) {
+    return { kind: 'polyline', start, points, end };
+  }
+  return { kind: 'line', start, end };
+}
+
+/**
+ * Points defining a connector path, in drawing order
+ */
+export function getConnectorPathPoints(path: ConnectorPath): Point[] {
+  switch (path.kind) {
+    case 'line':
+      return [path.start, path.end];
+    case 'quadratic':
+      return [path.start, path.control, path.end];
+    case 'cubic':
+      return [path.start, path.control1, path.control2, path.end];
+    case 'polyline':
+      return [path.start, ...path.points, path.end];
+  }
+}
+
+/**
+ * Point on a quadratic or cubic bezier curve
+ */
+function getCurvePoint(points: Point[], t: number): Point {
+  // De Casteljau's algorithm works for curves of any degree
+  let current = points;
+  while (current.length > 1) {
+    current = current.slice(1).map((point, index) => {
+      const previous = current[index] ?? point;
+      return {
+        x: previous.x + (point.x - previous.x) * t,
+        y: previous.y + (point.y - previous.y) * t,
+      };
+    });
+  }
+  return current[0] ?? { x: 0, y: 0 };
+}
+
+/**
+ * Approximate a connector path by a polyline
+ * @param segments Number of line segments used for each curve
+ */
+export function flattenConnectorPath(path: ConnectorPath, segments = 24): Point[] {
+  if (path.kind === 'line' || path.kind === 'polyline') {
+    return getConnectorPathPoints(path);
+  }
+
+  const controlPoints = getConnectorPathPoints(path);
+  return Array.from({ length: segments + 1 }, (_, index) =>
+    getCurvePoint(controlPoints, index / segments)
+  );
+}
+
+/**
+ * Closest point on the segment from a to b
+ */
+export function getClosestPointOnSegment(point: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    return { x: a.x, y: a.y };
+  }
+
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + dx * t, y: a.y + dy * t };
+}
+
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  return distance(point, getClosestPointOnSegment(point, a, b));
+}
+
+/**
+ * Shortest distance from a point to a polyline
+ */
+export function distanceToPolyline(point: Point, polyline: Point[]): number {
+  const [first] = polyline;
+  if (!first) {
+    return Infinity;
+  }
+
+  let min = distance(point, first);
+  for (let index = 1; index < polyline.length; index += 1) {
+    const a = polyline[index - 1];
+    const b = polyline[index];
+    if (a && b) {
+      min = Math.min(min, distanceToSegment(point, a, b));
+    }
+  }
+  return min;
+}
+
+export function getPolylineLength(polyline: Point[]): number {
+  return polyline.reduce(
+    (length, point, index) => length + distance(polyline[index - 1] ?? point, point),
+    0
+  );
+}
+
+/**
+ * Point at a fraction of a polyline's length
+ * @param offset 0 at the first point, 1 at the last
+ */
+export function getPointAtPolylineOffset(polyline: Point[], offset: number): Point {
+  const [first] = polyline;
+  if (!first) {
+    return { x: 0, y: 0 };
+  }
+
+  let remaining = Math.min(Math.max(offset, 0), 1) * getPolylineLength(polyline);
+  for (let index = 1; index < polyline.length; index += 1) {
+    const a = polyline[index - 1];
+    const b = polyline[index];
+    if (a && b) {
+      const length = distance(a, b);
+      if (remaining <= length && length > 0) {
+        const t = remaining / length;
+        return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      }
+      remaining -= length;
+    }
+  }
+
+  return polyline[polyline.length - 1] ?? first;
+}
+
+/**
+ * Fraction of a polyline's length at which it comes closest to a point
+ */
+export function getPolylineOffsetOfPoint(polyline: Point[], point: Point): number {
+  const totalLength = getPolylineLength(polyline);
+  if (totalLength === 0) {
+    return 0;
+  }
+
+  let best = { distance: Infinity, length: 0 };
+  let travelled = 0;
+  for (let index = 1; index < polyline.length; index += 1) {
+    const a = polyline[index - 1];
+    const b = polyline[index];
+    if (a && b) {
+      const closest = getClosestPointOnSegment(point, a, b);
+      const closestDistance = distance(point, closest);
+      if (closestDistance < best.distance) {
+        best = { distance: closestDistance, length: travelled + distance(a, closest) };
+      }
+      travelled += distance(a, b);
+    }
+  }
+
+  return best.length / totalLength;
+}
+
+/**
+ * Unrotated bounds of an element; connectors are bounded by their path points
+ */
+export function getElementBounds(element: DiagramElement): Rectangle {
+  if (element.type === ElementType.CONNECTOR) {
+    return getPointsBounds(getConnectorPathPoints(getConnectorPath(element)));
+  }
+
+  return {
+    x: element.position.x,
+    y: element.position.y,
+    width: element.size.width,
+    height: element.size.height,
+  };
+}
+
+/**
+ * Corners of a rectangle rotated around its center, clockwise from the top left
+ */
+export function getRotatedRectangleCorners(rect: Rectangle, rotation: number): Point[] {
+  const center = getRectangleCenter(rect);
+
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ].map((corner) => rotatePoint(corner, center, rotation));
+}
+
+/**
+ * Corners of an element's bounds after rotation, clockwise from the top left
+ */
+export function getElementCorners(element: DiagramElement): Point[] {
+  return getRotatedRectangleCorners(getElementBounds(element), element.rotation ?? 0);
+}
+
+/**
+ * Axis-aligned bounds of an element including its rotation
+ */
+export function getRotatedElementBounds(element: DiagramElement): Rectangle {
+  return element.rotation ? getPointsBounds(getElementCorners(element)) : getElementBounds(element);
+}
+
+/**
+ * Convert a world point into an element's unrotated frame
+ */
+export function toElementSpace(element: DiagramElement, point: Point): Point {
+  const rotation = element.rotation ?? 0;
+  if (!rotation) {
+    return point;
+  }
+  return rotatePoint(point, getRectangleCenter(getElementBounds(element)), -rotation);
+}
+
+/**
+ * World position of a connection point
+ * Connection point positions are relative to the element's top left corner before
+ * rotation, so they follow the element when it moves, resizes or rotates.
+ */
+export function getConnectionPointPosition(element: DiagramElement, offset: Point): Point {
+  return rotatePoint(
+    { x: element.position.x + offset.x, y: element.position.y + offset.y },
+    getRectangleCenter(getElementBounds(element)),
+    element.rotation ?? 0
+  );
+}
+
+/**
+ * Closest point on the outline of an element's bounds, taking rotation into account
+ */
+export function getClosestPointOnElementOutline(element: DiagramElement, point: Point): Point {
+  const bounds = getElementBounds(element);
+  const { x: left, y: top } = bounds;
+  const right = left + bounds.width;
+  const bottom = top + bounds.height;
+  const local = toElementSpace(element, point);
+
+  let x = Math.min(Math.max(local.x, left), right);
+  let y = Math.min(Math.max(local.y, top), bottom);
+
+  // Points inside are pushed out to the nearest edge
+  if (x === local.x && y === local.y) {
+    const edges = [x - left, right - x, y - top, bottom - y];
+    const nearest = edges.indexOf(Math.min(...edges));
+    if (nearest === 0) {
+      x = left;
+    } else if (nearest === 1) {
+      x = right;
+    } else if (nearest === 2) {
+      y = top;
+    } else {
+      y = bottom;
+    }
+  }
+
+  return rotatePoint({ x, y }, getRectangleCenter(bounds), element.rotation ?? 0);
+}
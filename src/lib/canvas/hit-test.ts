@@ -0,0 +1,248 @@
+/**
+ * Hit-testing in world coordinates
+ * Finds elements, selection handles and connection points under a point and ranks
+ * them so that whatever is drawn on top comes first.
+ */
+
+import { type HitTestResult, RenderLayer, type Viewport } from '@/types/canvas';
+import type { Point } from '@/types/common';
+import {
+  type Connector,
+  type DiagramElement,
+  ElementType,
+  type FreehandStroke,
+  type SelectionHandle,
+  type Shape,
+} from '@/types/elements';
+
+import { isConnectable } from './connection-points';
+import { queryElementIndex } from './element-index';
+import {
+  distance,
+  distanceToPolyline,
+  expandRectangle,
+  flattenConnectorPath,
+  getConnectionPointPosition,
+  getConnectorPath,
+  toElementSpace,
+} from './geometry';
+import { getElementLayer, HANDLE_SIZE } from './renderer';
+
+/** Default hit tolerance in screen pixels */
+export const DEFAULT_HIT_TOLERANCE = 6;
+
+/** Radius of connection point hit areas in screen pixels */
+export const CONNECTION_POINT_RADIUS = 5;
+
+/** Options for hit-testing */
+export interface HitTestOptions {
+  /** Viewport used to convert screen pixel tolerances into world units */
+  viewport: Pick<Viewport, 'zoom'>;
+  /** Elements to test; by default the spatial index is queried around the point */
+  elements?: DiagramElement[];
+  /** Selection handles in world coordinates */
+  handles?: SelectionHandle[];
+  /** Tolerance in screen pixels (default DEFAULT_HIT_TOLERANCE) */
+  tolerance?: number;
+  /** Whether connection points are tested (default true) */
+  connectionPoints?: boolean;
+}
+
+/** Hit result together with the zIndex used for ranking */
+interface RankedHit {
+  result: HitTestResult;
+  zIndex: number;
+}
+
+/**
+ * Distance from a point to an element's box; 0 inside the box
+ */
+function distanceToBox(element: DiagramElement, point: Point): number {
+  const local = toElementSpace(element, point);
+  const { x, y } = element.position;
+  const dx = Math.max(x - local.x, 0, local.x - (x + element.size.width));
+  const dy = Math.max(y - local.y, 0, local.y - (y + element.size.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Approximate distance from a point to an ellipse or diamond; 0 inside the shape
+ */
+function distanceToShape(shape: Shape, point: Point): number {
+  if (shape.shape === 'rectangle') {
+    return distanceToBox(shape, point);
+  }
+
+  const local = toElementSpace(shape, point);
+  const rx = shape.size.width / 2 || 1;
+  const ry = shape.size.height / 2 || 1;
+  const dx = Math.abs(local.x - (shape.position.x + rx)) / rx;
+  const dy = Math.abs(local.y - (shape.position.y + ry)) / ry;
+
+  // Both measures are 1 on the outline; scale the excess back into world units
+  if (shape.shape === 'ellipse') {
+    return Math.max(Math.hypot(dx, dy) - 1, 0) * Math.min(rx, ry);
+  }
+  return (Math.max(dx + dy - 1, 0) * rx * ry) / Math.hypot(rx, ry);
+}
+
+/**
+ * Distance from a point to the line of a freehand stroke
+ */
+function distanceToFreehand(stroke: FreehandStroke, point: Point): number {
+  const local = toElementSpace(stroke, point);
+  const lineDistance = distanceToPolyline(
+    { x: local.x - stroke.position.x, y: local.y - stroke.position.y },
+    stroke.points
+  );
+  return Math.max(lineDistance - stroke.style.strokeWidth / 2, 0);
+}
+
+/**
+ * Distance from a point to the stroke of a connector
+ */
+function distanceToConnector(connector: Connector, point: Point): number {
+  const local = toElementSpace(connector, point);
+  const lineDistance = distanceToPolyline(local, flattenConnectorPath(getConnectorPath(connector)));
+  // The stroke itself has a width
+  return Math.max(lineDistance - connector.style.strokeWidth / 2, 0);
+}
+
+function distanceToElement(element: DiagramElement, point: Point): number {
+  switch (element.type) {
+    case ElementType.CONNECTOR:
+      return distanceToConnector(element, point);
+    case ElementType.SHAPE:
+      return distanceToShape(element, point);
+    case ElementType.FREEHAND:
+      return distanceToFreehand(element, point);
+    default:
+      return distanceToBox(element, point);
+  }
+}
+
+function hitTestElement(
+  element: DiagramElement,
+  point: Point,
+  tolerance: number
+): RankedHit | null {
+  const elementDistance = distanceToElement(element, point);
+
+  if (elementDistance > tolerance) {
+    return null;
+  }
+
+  return {
+    result: {
+      element,
+      layer: getElementLayer(element),
+      distance: elementDistance,
+    },
+    zIndex: element.zIndex,
+  };
+}
+
+function hitTestConnectionPoints(
+  element: DiagramElement,
+  point: Point,
+  radius: number
+): RankedHit[] {
+  if (!isConnectable(element)) {
+    return [];
+  }
+
+  return element.connectionPoints.flatMap((connectionPoint) => {
+    const pointDistance = distance(
+      getConnectionPointPosition(element, connectionPoint.position),
+      point
+    );
+    if (pointDistance > radius) {
+      return [];
+    }
+
+    return [
+      {
+        result: {
+          element,
+          connectionPoint: connectionPoint.id,
+          layer: RenderLayer.HANDLES,
+          distance: pointDistance,
+        },
+        zIndex: element.zIndex,
+      },
+    ];
+  });
+}
+
+function hitTestHandles(handles: SelectionHandle[], point: Point, radius: number): RankedHit[] {
+  return handles.flatMap((handle) => {
+    const handleDistance = distance(handle.position, point);
+    if (handleDistance > radius) {
+      return [];
+    }
+
+    // Handles are drawn above every element
+    return [
+      {
+        result: { handle: handle.id, layer: RenderLayer.HANDLES, distance: handleDistance },
+        zIndex: Infinity,
+      },
+    ];
+  });
+}
+
+/**
+ * Order hits from topmost to bottommost: by layer, then zIndex, then distance
+ */
+function compareHits(a: RankedHit, b: RankedHit): number {
+  return (
+    b.result.layer - a.result.layer ||
+    (b.zIndex === a.zIndex ? 0 : b.zIndex > a.zIndex ? 1 : -1) ||
+    a.result.distance - b.result.distance
+  );
+}
+
+/**
+ * Everything under a point, topmost first
+ * @param point Point in world coordinates
+ */
+export function hitTestAll(point: Point, options: HitTestOptions): HitTestResult[] {
+  const { zoom } = options.viewport;
+  const tolerance = (options.tolerance ?? DEFAULT_HIT_TOLERANCE) / zoom;
+  const handleRadius = HANDLE_SIZE / 2 / zoom + tolerance;
+  const connectionPointRadius = CONNECTION_POINT_RADIUS / zoom + tolerance;
+
+  const searchRadius = Math.max(tolerance, connectionPointRadius);
+  const elements =
+    options.elements ??
+    queryElementIndex(
+      expandRectangle({ x: point.x, y: point.y, width: 0, height: 0 }, searchRadius)
+    );
+
+  const hits: RankedHit[] = hitTestHandles(options.handles ?? [], point, handleRadius);
+
+  elements.forEach((element) => {
+    if (element.visible === false) {
+      return;
+    }
+
+    if (options.connectionPoints !== false) {
+      hits.push(...hitTestConnectionPoints(element, point, connectionPointRadius));
+    }
+
+    const hit = hitTestElement(element, point, tolerance);
+    if (hit) {
+      hits.push(hit);
+    }
+  });
+
+  return hits.sort(compareHits).map(({ result }) => result);
+}
+
+/**
+ * The topmost thing under a point, or null when nothing was hit
+ * @param point Point in world coordinates
+ */
+export function hitTest(point: Point, options: HitTestOptions): HitTestResult | null {
+  return hitTestAll(point, options)[0] ?? null;
+}
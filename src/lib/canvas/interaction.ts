@@ -0,0 +1,1188 @@
+/**
+ * Pointer interaction state machine
+ * Turns canvas pointer and keyboard events into interaction modes and store calls. The
+ * controller holds no DOM references, so it can be driven by a sequence of events.
+ */
+
+import { isEqual, minBy } from 'lodash-es';
+
+import {
+  createFreehandStroke,
+  createToolElement,
+  type CreationTool,
+  DEFAULT_ELEMENT_SIZES,
+  isCreationTool,
+} from '@/lib/element-factory';
+import { withFrameChildren } from '@/lib/diagram-operations';
+import { getOuterGroupId, isInGroup, withGroupMembers } from '@/lib/groups';
+import { diagramSelectors, useDiagramStore } from '@/stores/diagram-store';
+import { useUIStore } from '@/stores/ui-store';
+import {
+  type CanvasKeyboardEvent,
+  type CanvasPointerEvent,
+  type ConnectionHint,
+  type DragState,
+  type DrawingPreview,
+  InteractionMode,
+  type SnapGuide,
+} from '@/types/canvas';
+import { type ID, type Point, type Rectangle, Tool } from '@/types/common';
+import {
+  type ConnectableElement,
+  type ConnectionTarget,
+  type CreateElementParams,
+  type DiagramElement,
+  ElementType,
+  type SelectionHandle,
+} from '@/types/elements';
+
+import { acceptsConnectorEnd, type ConnectorEnd, isConnectable } from './connection-points';
+import {
+  distance,
+  getConnectionPointPosition,
+  getElementCorners,
+  getPointsBounds,
+  getRectangleFromPoints,
+  getRotatedElementBounds,
+  rectangleContainsRectangle,
+  toElementSpace,
+} from './geometry';
+import { hitTest } from './hit-test';
+import { getLabelOffsetAt } from './labels';
+import {
+  DEFAULT_SNAP_PREFERENCES,
+  getGridSnapOffset,
+  getSnapGuides,
+  getSnapOffset,
+  SNAP_DISTANCE,
+  type SnapAxes,
+  type SnapPreferences,
+} from './snapping';
+import {
+  getSelectionFrame,
+  getSelectionHandles,
+  getTransformableElements,
+  isResizeHandle,
+  type ResizeHandleId,
+  resizeSelection,
+  rotateSelection,
+  ROTATE_HANDLE_ID,
+  type SelectionFrame,
+} from './transform';
+
+/** Pointer travel in screen pixels before a press becomes a drag */
+export const DRAG_THRESHOLD = 4;
+
+/** Pointer travel in screen pixels before a pen stroke gets another point */
+const STROKE_SAMPLE_DISTANCE = 2;
+
+/** Modifier keys that change how a drag is constrained or snapped */
+const CONSTRAINT_KEYS = ['Shift', 'Alt', 'Control', 'Meta'];
+
+/** Element types whose text is edited on double-click */
+const EDITABLE_TYPES = new Set<ElementType>([
+  ElementType.STICKY_NOTE,
+  ElementType.SHAPE,
+  ElementType.TEXT,
+  ElementType.FRAME,
+  ElementType.CONNECTOR,
+]);
+
+/** Options for an InteractionController */
+export interface InteractionControllerOptions {
+  /** Drag threshold in screen pixels (default DRAG_THRESHOLD) */
+  dragThreshold?: number;
+  /** Grid snapping of moves and resizes; smart guides are used while it is off */
+  snapping?: SnapPreferences;
+}
+
+/** Selection change applied on release when the press did not turn into a drag */
+type DeferredSelection = { kind: 'select' | 'toggle'; elementIds: ID[] } | null;
+
+/** Connector label being edited */
+export interface LabelEdit {
+  connectorId: ID;
+  /** Offset along the path where the label is placed */
+  offset: number;
+}
+
+/** What a moved or resized selection snaps to, taken when the gesture starts */
+interface SnapContext {
+  /** Bounds of the transformed elements */
+  bounds: Rectangle;
+  /** Bounds of the other elements in view */
+  targets: Rectangle[];
+}
+
+/** Pointer press that has not been released yet */
+interface PointerPress {
+  mode: DragState['mode'];
+  /** Screen position of the press */
+  position: Point;
+  worldPosition: Point;
+  target?: DiagramElement;
+  /** Selection handle that was pressed */
+  handle?: string;
+  /** Selection as it was when a resize or rotation started */
+  transformOrigin?: { elements: DiagramElement[]; frame: SelectionFrame };
+  snapContext?: SnapContext;
+  /** Connector being drawn and the connection point it would attach to */
+  connection?: { source: ConnectionTarget; target: ConnectionTarget | null };
+  /** Tool creating an element when the press is released */
+  tool?: CreationTool | Tool.PEN;
+  /** Points of a pen stroke in world coordinates */
+  strokePoints?: Point[];
+  deferredSelection: DeferredSelection;
+  /** Selection kept by an additive rubber band */
+  baseSelection: ID[];
+  /** Viewport offset when panning started */
+  startOffset: Point;
+}
+
+/**
+ * Whether an element is drawn and can be hit and selected
+ */
+function isShown(element: DiagramElement): boolean {
+  return element.visible !== false;
+}
+
+function isAdditive(modifiers: CanvasPointerEvent['modifiers']): boolean {
+  return modifiers.shift || modifiers.ctrl || modifiers.meta;
+}
+
+/**
+ * Whether a resize is symmetric around the center; Alt is taken by bypassing snapping
+ */
+function resizesFromCenter(modifiers: CanvasPointerEvent['modifiers']): boolean {
+  return modifiers.ctrl || modifiers.meta;
+}
+
+/**
+ * Constrain a delta to its dominant axis
+ */
+function lockToAxis(delta: Point): Point {
+  return Math.abs(delta.x) >= Math.abs(delta.y) ? { x: delta.x, y: 0 } : { x: 0, y: delta.y };
+}
+
+/**
+ * Headless controller for selecting, moving, transforming, connecting, panning and editing
+ * on the canvas
+ */
+export class InteractionController {
+  private mode = InteractionMode.NORMAL;
+  private drag: DragState | null = null;
+  private press: PointerPress | null = null;
+  private lastEvent: CanvasPointerEvent | null = null;
+  private labelEdit: LabelEdit | null = null;
+  /** Delta already applied to the moved elements */
+  private appliedDelta: Point = { x: 0, y: 0 };
+  private snapGuides: SnapGuide[] = [];
+  private snapping: SnapPreferences;
+  private readonly dragThreshold: number;
+
+  constructor(options: InteractionControllerOptions = {}) {
+    this.dragThreshold = options.dragThreshold ?? DRAG_THRESHOLD;
+    this.snapping = { ...DEFAULT_SNAP_PREFERENCES, ...options.snapping };
+  }
+
+  setSnapPreferences(preferences: Partial<SnapPreferences>): void {
+    this.snapping = { ...this.snapping, ...preferences };
+  }
+
+  getMode(): InteractionMode {
+    return this.mode;
+  }
+
+  getDragState(): DragState | null {
+    return this.drag ? { ...this.drag } : null;
+  }
+
+  /**
+   * Rubber band rectangle in world coordinates while selecting
+   */
+  getSelectionBox(): Rectangle | null {
+    if (this.mode !== InteractionMode.SELECTING || !this.drag) {
+      return null;
+    }
+    return getRectangleFromPoints(this.drag.startPosition, this.drag.currentPosition);
+  }
+
+  /**
+   * Alignment and spacing guides of the selection being moved or resized
+   */
+  getSnapGuides(): SnapGuide[] {
+    return this.drag ? this.snapGuides.map((guide) => ({ ...guide })) : [];
+  }
+
+  /**
+   * Connector label being edited, or null when editing a note or not editing
+   */
+  getLabelEdit(): LabelEdit | null {
+    return this.mode === InteractionMode.EDITING && this.labelEdit ? { ...this.labelEdit } : null;
+  }
+
+  /**
+   * Finish editing a connector label; empty text removes the label
+   */
+  commitLabelEdit(text: string): void {
+    const { labelEdit } = this;
+    if (this.mode !== InteractionMode.EDITING || !labelEdit) {
+      return;
+    }
+
+    useDiagramStore.getState().setConnectorLabel(labelEdit.connectorId, text, labelEdit.offset);
+    useUIStore.getState().clearEditingElement();
+    this.labelEdit = null;
+    this.mode = InteractionMode.NORMAL;
+  }
+
+  /**
+   * Element being drawn with a creation tool or the pen
+   */
+  getDrawingPreview(): DrawingPreview | null {
+    const { press, drag } = this;
+    if (this.mode !== InteractionMode.DRAWING || !press?.tool || !drag) {
+      return null;
+    }
+
+    const { strokePoints } = press;
+    if (strokePoints) {
+      return {
+        tool: press.tool,
+        bounds: getPointsBounds(strokePoints),
+        points: strokePoints.map((point) => ({ ...point })),
+      };
+    }
+    return {
+      tool: press.tool,
+      bounds: getRectangleFromPoints(drag.startPosition, drag.currentPosition),
+    };
+  }
+
+  /**
+   * Connection points of the note or shape under the pointer while the connector tool is
+   * active
+   */
+  getConnectionHints(): ConnectionHint[] {
+    const { lastEvent } = this;
+    if (!lastEvent || useUIStore.getState().currentTool !== Tool.CONNECTOR) {
+      return [];
+    }
+
+    const connection = this.press?.connection;
+    const connectorEnd: ConnectorEnd = connection ? 'end' : 'start';
+    const element = this.findConnectableElement(lastEvent)?.element;
+    const active = connection ? connection.target : this.findConnectionPoint(lastEvent, 'start');
+
+    const hints: ConnectionHint[] = element
+      ? element.connectionPoints.map((point) => {
+          const target = { elementId: element.id, connectionPointId: point.id };
+          return {
+            position: getConnectionPointPosition(element, point.position),
+            valid: acceptsConnectorEnd(point, connectorEnd) && !isEqual(target, connection?.source),
+            active: isEqual(target, active),
+          };
+        })
+      : [];
+
+    const sourcePosition = connection && this.getConnectionTargetPosition(connection.source);
+    if (sourcePosition) {
+      hints.push({ position: sourcePosition, valid: true, active: true });
+    }
+    return hints;
+  }
+
+  /**
+   * Connector being drawn, from its start to its target or the pointer
+   */
+  getConnectionPreview(): { start: Point; end: Point } | null {
+    const connection = this.press?.connection;
+    if (this.mode !== InteractionMode.CONNECTING || !connection || !this.drag) {
+      return null;
+    }
+
+    const start = this.getConnectionTargetPosition(connection.source);
+    const end =
+      (connection.target && this.getConnectionTargetPosition(connection.target)) ??
+      this.drag.currentPosition;
+    return start ? { start, end: { ...end } } : null;
+  }
+
+  /**
+   * Resize and rotate handles of the current selection in world coordinates
+   */
+  getHandles(): SelectionHandle[] {
+    if (
+      this.mode === InteractionMode.EDITING ||
+      useUIStore.getState().currentTool !== Tool.SELECT
+    ) {
+      return [];
+    }
+
+    const state = useDiagramStore.getState();
+    const frame = getSelectionFrame(this.getSelectedElements());
+    return frame ? getSelectionHandles(frame, diagramSelectors.getViewport(state).zoom) : [];
+  }
+
+  handlePointerEvent(event: CanvasPointerEvent): void {
+    switch (event.type) {
+      case 'down':
+        this.handlePointerDown(event);
+        break;
+      case 'move':
+        this.handlePointerMove(event);
+        break;
+      case 'up':
+        this.handlePointerUp(event);
+        break;
+      case 'double-click':
+        this.handleDoubleClick(event);
+        break;
+      case 'click':
+        // Presses are completed on 'up'
+        break;
+    }
+  }
+
+  handleKeyboardEvent(event: CanvasKeyboardEvent): void {
+    if (event.type === 'down' && event.key === 'Escape') {
+      if (!this.press && this.mode !== InteractionMode.EDITING) {
+        // Escape with nothing else to cancel leaves the entered group
+        useUIStore.getState().exitGroup();
+      }
+      this.cancel();
+      return;
+    }
+
+    // Modifiers change constraints mid-drag without moving the pointer; key events report
+    // the modifier state after the change
+    const constrained = this.drag && ['move', 'resize', 'rotate'].includes(this.drag.mode);
+    if (CONSTRAINT_KEYS.includes(event.key) && constrained && this.lastEvent) {
+      this.handlePointerMove({ ...this.lastEvent, type: 'move', modifiers: event.modifiers });
+    }
+  }
+
+  /**
+   * Abort the current gesture and undo its effects
+   */
+  cancel(): void {
+    const { press, drag } = this;
+
+    if (drag?.mode === 'move' || drag?.mode === 'resize' || drag?.mode === 'rotate') {
+      useDiagramStore.getState().cancelTransaction();
+    } else if (drag?.mode === 'select' && press) {
+      // Restore the selection from before the rubber band
+      const ui = useUIStore.getState();
+      ui.updateMultiSelection(drag.currentPosition, new Set(press.baseSelection));
+      ui.endMultiSelection();
+    } else if (drag?.mode === 'pan' && press) {
+      useDiagramStore.getState().setViewport({ offset: press.startOffset });
+    } else if (!press && this.mode === InteractionMode.EDITING) {
+      useUIStore.getState().clearEditingElement();
+      this.labelEdit = null;
+      this.mode = InteractionMode.NORMAL;
+    }
+
+    this.reset();
+  }
+
+  private handlePointerDown(event: CanvasPointerEvent): void {
+    // A second button pressed mid-gesture is ignored
+    if (this.press) {
+      return;
+    }
+    this.lastEvent = event;
+
+    const { currentTool } = useUIStore.getState();
+    const panning = event.button === 'middle' || currentTool === Tool.PAN;
+    const connecting = !panning && currentTool === Tool.CONNECTOR;
+    const drawing = !panning && (isCreationTool(currentTool) || currentTool === Tool.PEN);
+
+    if (
+      !panning &&
+      (event.button !== 'left' || (currentTool !== Tool.SELECT && !connecting && !drawing))
+    ) {
+      return;
+    }
+
+    if (connecting) {
+      this.pressConnectionPoint(event);
+      return;
+    }
+
+    if (drawing) {
+      this.pressDrawingTool(event, currentTool);
+      return;
+    }
+
+    const handle = panning ? undefined : this.findHandle(event);
+    const target = panning || handle ? undefined : this.findTarget(event);
+
+    if (this.mode === InteractionMode.EDITING) {
+      const { editingElement, clearEditingElement } = useUIStore.getState();
+      // Presses inside the edited element belong to the text editor
+      if (target && target.id === editingElement) {
+        return;
+      }
+      clearEditingElement();
+      this.labelEdit = null;
+      this.mode = InteractionMode.NORMAL;
+    }
+
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    this.press = {
+      mode: panning ? 'pan' : handle ? handle.mode : target ? 'move' : 'select',
+      position: { ...event.position },
+      worldPosition: { ...event.worldPosition },
+      ...(target && { target }),
+      ...(handle && { handle: handle.id, transformOrigin: handle.origin }),
+      deferredSelection: null,
+      baseSelection: [],
+      startOffset: { ...viewport.offset },
+    };
+
+    if (panning) {
+      // Panning needs no threshold
+      this.startDrag(event);
+      return;
+    }
+
+    const ui = useUIStore.getState();
+    if (handle) {
+      // Handles act on the selection as it is
+      return;
+    }
+    if (target) {
+      this.press.deferredSelection = this.selectOnPress(target, isAdditive(event.modifiers));
+    } else if (isAdditive(event.modifiers)) {
+      this.press.baseSelection = ui.getSelectedElementIds();
+    } else {
+      ui.deselectAllElements();
+      ui.exitGroup();
+    }
+  }
+
+  private handlePointerMove(event: CanvasPointerEvent): void {
+    this.lastEvent = event;
+
+    const { press } = this;
+    if (!press) {
+      this.updateHover(event);
+      return;
+    }
+
+    if (!this.drag) {
+      if (distance(press.position, event.position) < this.dragThreshold) {
+        return;
+      }
+      this.startDrag(event);
+    }
+
+    const { drag } = this;
+    if (!drag) {
+      return;
+    }
+
+    drag.currentPosition = { ...event.worldPosition };
+
+    switch (drag.mode) {
+      case 'move':
+        this.moveSelection(event);
+        break;
+      case 'select':
+        this.updateRubberBand();
+        break;
+      case 'pan':
+        // Screen coordinates, since the world moves under the pointer while panning
+        drag.delta = {
+          x: event.position.x - press.position.x,
+          y: event.position.y - press.position.y,
+        };
+        useDiagramStore.getState().setViewport({
+          offset: { x: press.startOffset.x + drag.delta.x, y: press.startOffset.y + drag.delta.y },
+        });
+        break;
+      case 'resize':
+      case 'rotate':
+        this.transformSelection(event);
+        break;
+      case 'connect':
+        if (press.connection) {
+          press.connection.target = this.findConnectionPoint(event, 'end', press.connection.source);
+        }
+        break;
+      case 'draw':
+        this.extendStroke(event);
+        break;
+      case 'create':
+        // The preview follows the drag's current position
+        break;
+    }
+  }
+
+  private handlePointerUp(event: CanvasPointerEvent): void {
+    this.lastEvent = event;
+
+    const { press, drag } = this;
+    if (!press) {
+      return;
+    }
+
+    if (drag?.mode === 'move' || drag?.mode === 'resize' || drag?.mode === 'rotate') {
+      this.rerouteAttachedConnectors();
+      this.updateFrameMembership();
+      useDiagramStore.getState().commitTransaction();
+    } else if (drag?.mode === 'select') {
+      useUIStore.getState().endMultiSelection();
+    } else if (drag?.mode === 'connect' && press.connection?.target) {
+      const { source, target } = press.connection;
+      const connectorId = useDiagramStore.getState().connectElements(source, target);
+      if (connectorId) {
+        useUIStore.getState().selectElement(connectorId);
+      }
+    } else if (press.mode === 'create' || press.mode === 'draw') {
+      this.createDrawnElement();
+    } else if (!drag && press.deferredSelection) {
+      // A click without drag narrows or toggles the selection
+      const { kind, elementIds } = press.deferredSelection;
+      const ui = useUIStore.getState();
+      if (kind === 'toggle') {
+        const removed = new Set(elementIds);
+        ui.selectElements(ui.getSelectedElementIds().filter((id) => !removed.has(id)));
+      } else {
+        ui.selectElements(elementIds);
+      }
+    }
+
+    this.reset();
+  }
+
+  private handleDoubleClick(event: CanvasPointerEvent): void {
+    if (event.button !== 'left' || useUIStore.getState().currentTool !== Tool.SELECT) {
+      return;
+    }
+
+    const target = this.findTarget(event);
+    if (!target) {
+      return;
+    }
+
+    // A double-click on a group enters it and selects the part of it that was clicked
+    const groupId = getOuterGroupId(target, this.getEditingGroup(target));
+    if (groupId) {
+      this.cancel();
+      useUIStore.getState().enterGroup(groupId);
+      useUIStore.getState().selectElements(this.getSelectionGroup(target));
+      return;
+    }
+
+    if (target.locked || !EDITABLE_TYPES.has(target.type)) {
+      return;
+    }
+
+    // A double-click also delivers two presses; make sure neither is still active
+    this.cancel();
+
+    if (target.type === ElementType.CONNECTOR) {
+      // Existing labels keep their place; new ones go where the connector was clicked
+      this.labelEdit = {
+        connectorId: target.id,
+        offset:
+          target.label?.offset ??
+          getLabelOffsetAt(target, toElementSpace(target, event.worldPosition)),
+      };
+    }
+
+    useUIStore.getState().setEditingElement(target.id);
+    this.mode = InteractionMode.EDITING;
+  }
+
+  /**
+   * Update the selection for a press on an element
+   * Changes that would break dragging the current selection wait until release.
+   */
+  private selectOnPress(target: DiagramElement, additive: boolean): DeferredSelection {
+    const ui = useUIStore.getState();
+    if (ui.editingGroup !== this.getEditingGroup(target)) {
+      // Pressing outside the entered group leaves it
+      ui.exitGroup();
+    }
+
+    const elementIds = this.getSelectionGroup(target);
+    const selected = elementIds.every((id) => ui.isElementSelected(id));
+
+    if (additive) {
+      if (selected) {
+        return { kind: 'toggle', elementIds };
+      }
+      ui.selectElements([...ui.getSelectedElementIds(), ...elementIds]);
+      return null;
+    }
+
+    if (selected) {
+      return ui.getSelectedElementCount() > elementIds.length
+        ? { kind: 'select', elementIds }
+        : null;
+    }
+    ui.selectElements(elementIds);
+    return null;
+  }
+
+  /**
+   * Entered group an element can be selected in: the current one if the element is inside
+   * it, otherwise the top level
+   */
+  private getEditingGroup(element: DiagramElement): ID | null {
+    const { editingGroup } = useUIStore.getState();
+    return editingGroup && isInGroup(element, editingGroup) ? editingGroup : null;
+  }
+
+  /**
+   * Element together with the members of its group, which are selected as one
+   */
+  private getSelectionGroup(element: DiagramElement): ID[] {
+    const elements = diagramSelectors.getElements(useDiagramStore.getState()).filter(isShown);
+    return [...withGroupMembers(elements, [element.id], this.getEditingGroup(element))];
+  }
+
+  private startDrag(event: CanvasPointerEvent): void {
+    const { press } = this;
+    if (!press) {
+      return;
+    }
+
+    this.drag = {
+      active: true,
+      startPosition: { ...press.worldPosition },
+      currentPosition: { ...event.worldPosition },
+      delta: { x: 0, y: 0 },
+      ...(press.target && { target: press.target }),
+      ...(press.handle && { handle: press.handle }),
+      mode: press.mode,
+    };
+    press.deferredSelection = null;
+
+    switch (press.mode) {
+      case 'move':
+        this.appliedDelta = { x: 0, y: 0 };
+        this.setSnapContext(press);
+        // Every step of the drag is recorded as one undo entry
+        useDiagramStore.getState().beginTransaction();
+        this.mode = InteractionMode.NORMAL;
+        break;
+      case 'select':
+        useUIStore.getState().startMultiSelection(press.worldPosition);
+        this.mode = InteractionMode.SELECTING;
+        break;
+      case 'pan':
+        this.mode = InteractionMode.PANNING;
+        break;
+      case 'resize':
+        this.setSnapContext(press);
+        useDiagramStore.getState().beginTransaction();
+        this.mode = InteractionMode.RESIZING;
+        break;
+      case 'rotate':
+        useDiagramStore.getState().beginTransaction();
+        this.mode = InteractionMode.ROTATING;
+        break;
+      case 'connect':
+        this.mode = InteractionMode.CONNECTING;
+        break;
+      case 'create':
+      case 'draw':
+        this.mode = InteractionMode.DRAWING;
+        break;
+    }
+  }
+
+  /**
+   * Start drawing a connector from the connection point under a press
+   */
+  private pressConnectionPoint(event: CanvasPointerEvent): void {
+    const source = this.findConnectionPoint(event, 'start');
+    if (!source) {
+      return;
+    }
+
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    this.press = {
+      mode: 'connect',
+      position: { ...event.position },
+      worldPosition: { ...event.worldPosition },
+      connection: { source, target: null },
+      deferredSelection: null,
+      baseSelection: [],
+      startOffset: { ...viewport.offset },
+    };
+  }
+
+  /**
+   * Start creating an element with a creation tool or drawing a pen stroke
+   */
+  private pressDrawingTool(event: CanvasPointerEvent, tool: CreationTool | Tool.PEN): void {
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    this.press = {
+      mode: tool === Tool.PEN ? 'draw' : 'create',
+      position: { ...event.position },
+      worldPosition: { ...event.worldPosition },
+      tool,
+      ...(tool === Tool.PEN && { strokePoints: [{ ...event.worldPosition }] }),
+      deferredSelection: null,
+      baseSelection: [],
+      startOffset: { ...viewport.offset },
+    };
+  }
+
+  /**
+   * Add the pointer position to the pen stroke unless it is too close to the last point
+   */
+  private extendStroke(event: CanvasPointerEvent): void {
+    const points = this.press?.strokePoints;
+    const last = points?.[points.length - 1];
+    if (!points || !last) {
+      return;
+    }
+
+    const { zoom } = diagramSelectors.getViewport(useDiagramStore.getState());
+    if (distance(last, event.worldPosition) * zoom >= STROKE_SAMPLE_DISTANCE) {
+      points.push({ ...event.worldPosition });
+    }
+  }
+
+  /**
+   * Add the element drawn by the released press and select it
+   * A click without a drag creates an element of the default size centered on the press.
+   */
+  private createDrawnElement(): void {
+    const { press, drag } = this;
+    if (!press?.tool) {
+      return;
+    }
+
+    const ui = useUIStore.getState();
+
+    if (press.tool === Tool.PEN) {
+      const stroke = createFreehandStroke(press.strokePoints ?? []);
+      if (stroke) {
+        ui.selectElement(this.addFramedElement(stroke));
+      }
+      return;
+    }
+
+    const size = DEFAULT_ELEMENT_SIZES[press.tool];
+    const bounds = drag
+      ? getRectangleFromPoints(drag.startPosition, drag.currentPosition)
+      : {
+          x: press.worldPosition.x - size.width / 2,
+          y: press.worldPosition.y - size.height / 2,
+          width: size.width,
+          height: size.height,
+        };
+
+    const params = createToolElement(press.tool, bounds);
+    const elementId = this.addFramedElement(
+      params.type === ElementType.FRAME
+        ? { ...params, childIds: this.getUnframedElementsIn(bounds) }
+        : params
+    );
+
+    ui.selectElement(elementId);
+    ui.resetToSelectTool();
+    if (params.type === ElementType.TEXT) {
+      // New text is empty, so typing starts right away
+      ui.setEditingElement(elementId);
+      this.mode = InteractionMode.EDITING;
+    }
+  }
+
+  /**
+   * Add an element to the frame it is drawn in, as one undo step
+   */
+  private addFramedElement(params: CreateElementParams<DiagramElement>): ID {
+    let elementId = '';
+    useDiagramStore.getState().performBatch(() => {
+      elementId = useDiagramStore.getState().addElement(params);
+      useDiagramStore.getState().updateFrameMembership([elementId]);
+    });
+    return elementId;
+  }
+
+  /**
+   * Move the selection and the children of selected frames into the frames that now
+   * contain them, and out of the ones that no longer do
+   */
+  private updateFrameMembership(): void {
+    const store = useDiagramStore.getState();
+    const elementIds = withFrameChildren(
+      diagramSelectors.getElements(store),
+      useUIStore.getState().getSelectedElementIds()
+    );
+    store.updateFrameMembership([...elementIds]);
+  }
+
+  /**
+   * Elements entirely inside an area that do not belong to a frame yet
+   */
+  private getUnframedElementsIn(area: Rectangle): ID[] {
+    const store = useDiagramStore.getState();
+    const framed = new Set(
+      diagramSelectors
+        .getElements(store)
+        .flatMap((element) => (element.type === ElementType.FRAME ? element.childIds : []))
+    );
+
+    return store
+      .getElementsInArea(area)
+      .filter(
+        (element) =>
+          element.type !== ElementType.CONNECTOR &&
+          !framed.has(element.id) &&
+          rectangleContainsRectangle(area, getRotatedElementBounds(element))
+      )
+      .map((element) => element.id);
+  }
+
+  private moveSelection(event: CanvasPointerEvent): void {
+    const { drag } = this;
+    if (!drag) {
+      return;
+    }
+
+    const rawDelta = {
+      x: drag.currentPosition.x - drag.startPosition.x,
+      y: drag.currentPosition.y - drag.startPosition.y,
+    };
+    drag.delta = this.snapMove(
+      event.modifiers.shift ? lockToAxis(rawDelta) : rawDelta,
+      event.modifiers
+    );
+
+    const step = { x: drag.delta.x - this.appliedDelta.x, y: drag.delta.y - this.appliedDelta.y };
+    const elementIds = this.getMovableSelection();
+    if (elementIds.length === 0) {
+      return;
+    }
+
+    useDiagramStore.getState().moveElements(elementIds, step);
+    this.appliedDelta = { ...drag.delta };
+    this.updateSnapGuides(event.modifiers, true);
+  }
+
+  private setSnapContext(press: PointerPress): void {
+    const state = useDiagramStore.getState();
+    const selected = this.getSelectedElements();
+    const moving = getTransformableElements(selected);
+    if (moving.length === 0) {
+      return;
+    }
+
+    // Frame children move along, so they are no targets either
+    const excluded = withFrameChildren(
+      diagramSelectors.getElements(state),
+      selected.map((element) => element.id)
+    );
+    press.snapContext = {
+      bounds: getPointsBounds(moving.flatMap(getElementCorners)),
+      targets: state
+        .getVisibleElements()
+        .filter(
+          (element) =>
+            isShown(element) && element.type !== ElementType.CONNECTOR && !excluded.has(element.id)
+        )
+        .map(getRotatedElementBounds),
+    };
+  }
+
+  private getSnapThreshold(): number {
+    return SNAP_DISTANCE / diagramSelectors.getViewport(useDiagramStore.getState()).zoom;
+  }
+
+  /**
+   * Adjust a move so the selection snaps to the grid or to nearby elements
+   * Alt moves freely, and a move constrained to one axis only snaps along that axis.
+   */
+  private snapMove(delta: Point, modifiers: CanvasPointerEvent['modifiers']): Point {
+    const context = this.press?.snapContext;
+    if (!context || modifiers.alt) {
+      return delta;
+    }
+
+    const axes: SnapAxes = {
+      x: !modifiers.shift || delta.x !== 0,
+      y: !modifiers.shift || delta.y !== 0,
+    };
+    const { bounds, targets } = context;
+    const moved = { ...bounds, x: bounds.x + delta.x, y: bounds.y + delta.y };
+    const offset = this.snapping.snapToGrid
+      ? getGridSnapOffset(moved, this.snapping.gridSize)
+      : getSnapOffset(moved, targets, this.getSnapThreshold(), { spacing: true, axes });
+
+    return { x: delta.x + (axes.x ? offset.x : 0), y: delta.y + (axes.y ? offset.y : 0) };
+  }
+
+  /**
+   * Pointer position of a resize, snapped so the dragged edges line up with the grid or
+   * nearby elements; Alt resizes freely
+   */
+  private snapResizePoint(
+    point: Point,
+    handle: ResizeHandleId,
+    modifiers: CanvasPointerEvent['modifiers']
+  ): Point {
+    const context = this.press?.snapContext;
+    if (!context || modifiers.alt) {
+      return point;
+    }
+
+    const axes: SnapAxes = { x: /[ew]/.test(handle), y: /[ns]/.test(handle) };
+    const offset = this.snapping.snapToGrid
+      ? getGridSnapOffset(point, this.snapping.gridSize)
+      : getSnapOffset({ ...point, width: 0, height: 0 }, context.targets, this.getSnapThreshold(), {
+          axes,
+        });
+
+    return { x: point.x + (axes.x ? offset.x : 0), y: point.y + (axes.y ? offset.y : 0) };
+  }
+
+  /**
+   * Guides for where the selection is now; none while snapping to the grid or bypassing
+   * snapping
+   */
+  private updateSnapGuides(modifiers: CanvasPointerEvent['modifiers'], spacing: boolean): void {
+    const context = this.press?.snapContext;
+    const moving = getTransformableElements(this.getSelectedElements());
+
+    this.snapGuides =
+      context && !modifiers.alt && !this.snapping.snapToGrid && moving.length > 0
+        ? getSnapGuides(getPointsBounds(moving.flatMap(getElementCorners)), context.targets, {
+            spacing,
+          })
+        : [];
+  }
+
+  /**
+   * Resize or rotate the selection from its state when the gesture started
+   */
+  private transformSelection(event: CanvasPointerEvent): void {
+    const { press } = this;
+    if (!press?.handle || !press.transformOrigin) {
+      return;
+    }
+
+    const { elements, frame } = press.transformOrigin;
+    const store = useDiagramStore.getState();
+
+    if (press.mode === 'rotate') {
+      // Alt rotates freely
+      store.rotateElements(
+        rotateSelection(
+          elements,
+          frame,
+          press.worldPosition,
+          event.worldPosition,
+          !event.modifiers.alt
+        )
+      );
+    } else if (isResizeHandle(press.handle)) {
+      // Edges of a rotated selection do not line up with anything
+      const snapped = frame.rotation === 0;
+      const point = snapped
+        ? this.snapResizePoint(event.worldPosition, press.handle, event.modifiers)
+        : event.worldPosition;
+
+      store.resizeElements(
+        resizeSelection(elements, frame, press.handle, point, {
+          keepAspectRatio: event.modifiers.shift,
+          fromCenter: resizesFromCenter(event.modifiers),
+        })
+      );
+      if (snapped) {
+        this.updateSnapGuides(event.modifiers, false);
+      }
+    }
+  }
+
+  /**
+   * Route connectors attached to the selection around the notes' new positions
+   */
+  private rerouteAttachedConnectors(): void {
+    const store = useDiagramStore.getState();
+    const selectedIds = new Set(useUIStore.getState().getSelectedElementIds());
+    const connectorIds = diagramSelectors
+      .getElements(store)
+      .filter(
+        (element) =>
+          element.type === ElementType.CONNECTOR &&
+          element.routing &&
+          (selectedIds.has(element.startElement.elementId) ||
+            selectedIds.has(element.endElement.elementId))
+      )
+      .map((element) => element.id);
+
+    if (connectorIds.length > 0) {
+      store.rerouteConnectors(connectorIds);
+    }
+  }
+
+  private updateRubberBand(): void {
+    const box = this.getSelectionBox();
+    const { drag, press } = this;
+    if (!box || !drag || !press) {
+      return;
+    }
+
+    // Only elements entirely inside the box are selected, together with their groups
+    const store = useDiagramStore.getState();
+    const ui = useUIStore.getState();
+    const enclosed = store
+      .getElementsInArea(box)
+      .filter(
+        (element) =>
+          isShown(element) &&
+          isInGroup(element, ui.editingGroup) &&
+          rectangleContainsRectangle(box, getRotatedElementBounds(element))
+      )
+      .map((element) => element.id);
+    const elementIds = new Set([
+      ...press.baseSelection,
+      ...withGroupMembers(
+        diagramSelectors.getElements(store).filter(isShown),
+        enclosed,
+        ui.editingGroup
+      ),
+    ]);
+
+    ui.updateMultiSelection(drag.currentPosition, elementIds);
+  }
+
+  private updateHover(event: CanvasPointerEvent): void {
+    const { hoveredElement, setHoveredElement } = useUIStore.getState();
+    const hoveredId = this.findTarget(event)?.id ?? null;
+
+    if (hoveredId !== hoveredElement) {
+      setHoveredElement(hoveredId);
+    }
+  }
+
+  /**
+   * Selected elements, leaving out any that were hidden while selected
+   */
+  private getSelectedElements(): DiagramElement[] {
+    const state = useDiagramStore.getState();
+    return useUIStore
+      .getState()
+      .getSelectedElementIds()
+      .flatMap((id) => diagramSelectors.getElementById(state, id) ?? [])
+      .filter(isShown);
+  }
+
+  /**
+   * Selection handle under the pointer, with the selection it transforms
+   */
+  private findHandle(event: CanvasPointerEvent) {
+    const handles = this.getHandles();
+    if (handles.length === 0) {
+      return null;
+    }
+
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    const handleId = hitTest(event.worldPosition, { viewport, elements: [], handles })?.handle;
+    const elements = this.getSelectedElements();
+    const frame = getSelectionFrame(elements);
+    if (!handleId || !frame) {
+      return null;
+    }
+
+    return {
+      id: handleId,
+      mode: handleId === ROTATE_HANDLE_ID ? ('rotate' as const) : ('resize' as const),
+      origin: { elements, frame },
+    };
+  }
+
+  /**
+   * Selected elements that can be moved
+   */
+  private getMovableSelection(): ID[] {
+    return this.getSelectedElements()
+      .filter((element) => !element.locked)
+      .map((element) => element.id);
+  }
+
+  /**
+   * Note or shape under the pointer, with the connection point hit on it if any
+   */
+  private findConnectableElement(
+    event: CanvasPointerEvent
+  ): { element: ConnectableElement; connectionPointId?: ID } | null {
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    const hit = hitTest(event.worldPosition, { viewport });
+    if (!hit?.element || !isConnectable(hit.element)) {
+      return null;
+    }
+    return {
+      element: hit.element,
+      ...(hit.connectionPoint && { connectionPointId: hit.connectionPoint }),
+    };
+  }
+
+  /**
+   * Connection point a connector end would attach to at the pointer
+   * A point under the pointer is taken as is, so a point of the wrong type refuses the
+   * connection; over the rest of an element the closest point that fits is used.
+   * @param exclude Point the connector already starts at
+   */
+  private findConnectionPoint(
+    event: CanvasPointerEvent,
+    connectorEnd: ConnectorEnd,
+    exclude?: ConnectionTarget
+  ): ConnectionTarget | null {
+    const hit = this.findConnectableElement(event);
+    if (!hit) {
+      return null;
+    }
+
+    const { element, connectionPointId } = hit;
+    const candidates = element.connectionPoints.filter(
+      (point) =>
+        acceptsConnectorEnd(point, connectorEnd) &&
+        !isEqual({ elementId: element.id, connectionPointId: point.id }, exclude)
+    );
+    const point = connectionPointId
+      ? candidates.find((candidate) => candidate.id === connectionPointId)
+      : minBy(candidates, (candidate) =>
+          distance(getConnectionPointPosition(element, candidate.position), event.worldPosition)
+        );
+
+    return point ? { elementId: element.id, connectionPointId: point.id } : null;
+  }
+
+  private getConnectionTargetPosition(target: ConnectionTarget): Point | null {
+    const element = diagramSelectors.getElementById(useDiagramStore.getState(), target.elementId);
+    if (!element || !isConnectable(element)) {
+      return null;
+    }
+    const point = element.connectionPoints.find((cp) => cp.id === target.connectionPointId);
+    return point ? getConnectionPointPosition(element, point.position) : null;
+  }
+
+  private findTarget(event: CanvasPointerEvent): DiagramElement | undefined {
+    if (event.target) {
+      return event.target;
+    }
+
+    const viewport = diagramSelectors.getViewport(useDiagramStore.getState());
+    return hitTest(event.worldPosition, { viewport, connectionPoints: false })?.element;
+  }
+
+  private reset(): void {
+    this.press = null;
+    this.drag = null;
+    this.appliedDelta = { x: 0, y: 0 };
+    this.snapGuides = [];
+    if (this.mode !== InteractionMode.EDITING) {
+      this.mode = InteractionMode.NORMAL;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Connector label placement
+ * A label is stored as an offset along its connector's path, so it moves with the
+ * connector when the endpoints or the route change. Labels that would cover each other
+ * are nudged along their paths when the diagram is drawn.
+ */
+
+import type { Point, Rectangle, Size } from '@/types/common';
+import type { Connector, ConnectorLabel } from '@/types/elements';
+
+import {
+  flattenConnectorPath,
+  getConnectorPath,
+  getPointAtPolylineOffset,
+  getPolylineOffsetOfPoint,
+  rectanglesIntersect,
+} from './geometry';
+
+/** Offset of new labels: the middle of the path */
+export const DEFAULT_LABEL_OFFSET = 0.5;
+
+/** Appearance of new labels */
+export const DEFAULT_LABEL_STYLE: Omit<ConnectorLabel, 'text' | 'offset'> = {
+  fontSize: 12,
+  textColor: '#374151',
+  backgroundColor: '#ffffff',
+};
+
+/** Step along the path when moving a label out of the way */
+const LABEL_NUDGE_STEP = 0.08;
+
+/** Largest number of steps tried in each direction */
+const MAX_LABEL_NUDGES = 5;
+
+/** Measures the box a label is drawn in */
+export type LabelMeasure = (label: ConnectorLabel) => Size;
+
+/**
+ * Position of a label on its connector in the connector's coordinate space
+ * @param offset Offset along the path; defaults to the label's own offset
+ */
+export function getLabelPosition(connector: Connector, offset?: number): Point {
+  const polyline = flattenConnectorPath(getConnectorPath(connector));
+  return getPointAtPolylineOffset(
+    polyline,
+    offset ?? connector.label?.offset ?? DEFAULT_LABEL_OFFSET
+  );
+}
+
+/**
+ * Offset along a connector's path closest to a point
+ * @param point Point in the connector's coordinate space
+ */
+export function getLabelOffsetAt(connector: Connector, point: Point): number {
+  return getPolylineOffsetOfPoint(flattenConnectorPath(getConnectorPath(connector)), point);
+}
+
+/**
+ * Offsets to try for a label, nearest to its own offset first
+ */
+function getCandidateOffsets(offset: number): number[] {
+  const candidates = [offset];
+  for (let step = 1; step <= MAX_LABEL_NUDGES; step += 1) {
+    [offset + step * LABEL_NUDGE_STEP, offset - step * LABEL_NUDGE_STEP]
+      .filter((candidate) => candidate >= 0 && candidate <= 1)
+      .forEach((candidate) => candidates.push(candidate));
+  }
+  return candidates;
+}
+
+/**
+ * Where to draw the labels of a set of connectors
+ * Labels are placed in order; each one takes the first offset near its own where it
+ * does not cover a label placed before it, or stays at its own offset if there is none.
+ * @returns Label centers by connector ID
+ */
+export function layoutConnectorLabels(
+  connectors: Connector[],
+  measure: LabelMeasure
+): Map<string, Point> {
+  const positions = new Map<string, Point>();
+  const placed: Rectangle[] = [];
+
+  connectors.forEach((connector) => {
+    const { label } = connector;
+    if (!label?.text) {
+      return;
+    }
+
+    const polyline = flattenConnectorPath(getConnectorPath(connector));
+    const { width, height } = measure(label);
+    const boxAt = (center: Point): Rectangle => ({
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+    });
+
+    const preferred = getPointAtPolylineOffset(polyline, label.offset);
+    const position =
+      getCandidateOffsets(label.offset)
+        .map((offset) => getPointAtPolylineOffset(polyline, offset))
+        .find((center) => !placed.some((box) => rectanglesIntersect(box, boxAt(center)))) ??
+      preferred;
+
+    placed.push(boxAt(position));
+    positions.set(connector.id, position);
+  });
+
+  return positions;
+}
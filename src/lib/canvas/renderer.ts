@@ -0,0 +1,564 @@
+/**
+ * Canvas 2D rendering engine
+ * Draws a CanvasRenderContext layer by layer in RenderLayer order. Additional drawing,
+ * such as interaction overlays, is plugged in by registering layer renderers.
+ */
+
+import {
+  type CanvasPerformanceMetrics,
+  type CanvasRenderContext,
+  RenderLayer,
+} from '@/types/canvas';
+import { type Color, type Rectangle, type Size, Tool } from '@/types/common';
+import { type Connector, type DiagramElement, ElementType } from '@/types/elements';
+
+import {
+  drawConnector,
+  drawFrame,
+  drawFreehand,
+  drawShape,
+  drawStickyNote,
+  drawTextElement,
+  measureConnectorLabel,
+} from './element-drawing';
+import {
+  expandRectangle,
+  getElementBounds,
+  getRotatedElementBounds,
+  getRotatedRectangleCorners,
+  getVisibleArea,
+  rectanglesIntersect,
+} from './geometry';
+import { layoutConnectorLabels } from './labels';
+import type { SpatialIndex } from './spatial-index';
+
+/** Draws one layer; it runs with the world transform applied */
+export type LayerRenderer = (context: CanvasRenderContext) => void;
+
+/** Renderer appearance options */
+export interface CanvasRendererOptions {
+  backgroundColor?: Color;
+  gridVisible?: boolean;
+  /** Grid spacing in world units */
+  gridSize?: number;
+  gridStyle?: 'lines' | 'dots';
+  gridColor?: Color;
+  selectionColor?: Color;
+  /** Color of connection points a connector cannot attach to */
+  invalidColor?: Color;
+  /** Color of alignment and spacing guides */
+  guideColor?: Color;
+}
+
+/** Size of selection handles in screen pixels */
+export const HANDLE_SIZE = 8;
+
+/** Smallest on-screen grid spacing; denser grids skip lines */
+const MIN_GRID_SPACING = 8;
+
+/** Weight of the newest frame in the smoothed frame rate */
+const FRAME_RATE_SMOOTHING = 0.1;
+
+/** Frames further apart than this are treated as a fresh start (ms) */
+const MAX_FRAME_INTERVAL = 1000;
+
+const DEFAULT_OPTIONS: Required<CanvasRendererOptions> = {
+  backgroundColor: '#ffffff',
+  gridVisible: true,
+  gridSize: 20,
+  gridStyle: 'lines',
+  gridColor: '#e5e7eb',
+  selectionColor: '#3b82f6',
+  invalidColor: '#ef4444',
+  guideColor: '#ec4899',
+};
+
+/** Non-standard memory info exposed by Chromium browsers */
+interface PerformanceWithMemory extends Performance {
+  memory?: { usedJSHeapSize: number };
+}
+
+function now(): number {
+  return typeof performance === 'undefined' ? Date.now() : performance.now();
+}
+
+function getMemoryUsage(): number | undefined {
+  if (typeof performance === 'undefined') {
+    return undefined;
+  }
+  return (performance as PerformanceWithMemory).memory?.usedJSHeapSize;
+}
+
+/**
+ * Layer an element is drawn on: frames below connectors, connectors below everything else
+ */
+export function getElementLayer(element: DiagramElement): RenderLayer {
+  switch (element.type) {
+    case ElementType.FRAME:
+      return RenderLayer.FRAMES;
+    case ElementType.CONNECTOR:
+      return RenderLayer.CONNECTORS;
+    default:
+      return RenderLayer.ELEMENTS;
+  }
+}
+
+/**
+ * Order elements for drawing: lowest zIndex first, keeping array order for ties
+ */
+export function sortByZIndex<T extends DiagramElement>(elements: T[]): T[] {
+  return elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => a.element.zIndex - b.element.zIndex || a.index - b.index)
+    .map(({ element }) => element);
+}
+
+/**
+ * Size the canvas backing store for the device pixel ratio
+ * @param size CSS size of the canvas
+ */
+export function resizeCanvas(canvas: HTMLCanvasElement, size: Size, devicePixelRatio: number) {
+  const width = Math.round(size.width * devicePixelRatio);
+  const height = Math.round(size.height * devicePixelRatio);
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  canvas.style.width = `${size.width}px`;
+  canvas.style.height = `${size.height}px`;
+}
+
+/**
+ * Renders diagrams onto a 2D canvas
+ */
+export class CanvasRenderer {
+  private options: Required<CanvasRendererOptions>;
+  private readonly layers = new Map<RenderLayer, LayerRenderer[]>();
+  private spatialIndex: SpatialIndex<DiagramElement> | null = null;
+  private lastFrameTime: number | null = null;
+  private metrics: CanvasPerformanceMetrics = {
+    renderTime: 0,
+    elementCount: 0,
+    visibleElementCount: 0,
+    frameRate: 0,
+  };
+
+  constructor(options: CanvasRendererOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    this.registerLayer(RenderLayer.BACKGROUND, (context) => this.drawBackground(context));
+    this.registerLayer(RenderLayer.GRID, (context) => this.drawGrid(context));
+    this.registerLayer(RenderLayer.FRAMES, (context) =>
+      this.drawElements(context, RenderLayer.FRAMES)
+    );
+    this.registerLayer(RenderLayer.CONNECTORS, (context) =>
+      this.drawElements(context, RenderLayer.CONNECTORS)
+    );
+    this.registerLayer(RenderLayer.ELEMENTS, (context) =>
+      this.drawElements(context, RenderLayer.ELEMENTS)
+    );
+    this.registerLayer(RenderLayer.SELECTION, (context) => this.drawSelection(context));
+    this.registerLayer(RenderLayer.HANDLES, (context) => this.drawHandles(context));
+    this.registerLayer(RenderLayer.HANDLES, (context) => this.drawConnectionHints(context));
+    this.registerLayer(RenderLayer.UI_OVERLAY, (context) => this.drawDrawingPreview(context));
+    this.registerLayer(RenderLayer.UI_OVERLAY, (context) => this.drawSnapGuides(context));
+  }
+
+  setOptions(options: CanvasRendererOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Cull through a spatial index instead of scanning every element
+   * The index must hold the same elements that are passed to render().
+   */
+  setSpatialIndex(index: SpatialIndex<DiagramElement> | null): void {
+    this.spatialIndex = index;
+  }
+
+  /**
+   * Add a renderer to a layer; renderers of the same layer run in registration order
+   * @returns Function that removes the renderer again
+   */
+  registerLayer(layer: RenderLayer, renderer: LayerRenderer): () => void {
+    const renderers = this.layers.get(layer) ?? [];
+    renderers.push(renderer);
+    this.layers.set(layer, renderers);
+
+    return () => {
+      const current = this.layers.get(layer);
+      if (current) {
+        this.layers.set(
+          layer,
+          current.filter((candidate) => candidate !== renderer)
+        );
+      }
+    };
+  }
+
+  /**
+   * Draw a frame
+   * @returns Performance metrics of the frame
+   */
+  render(context: CanvasRenderContext): CanvasPerformanceMetrics {
+    const startTime = now();
+    const { ctx, canvas, viewport, devicePixelRatio } = context;
+
+    // Only elements in view are handed to the layers
+    const visibleArea = getVisibleArea(viewport);
+    const candidates = this.spatialIndex
+      ? this.spatialIndex.search(visibleArea)
+      : context.elements.filter((element) =>
+          rectanglesIntersect(getRotatedElementBounds(element), visibleArea)
+        );
+    const visibleElements = candidates.filter((element) => element.visible !== false);
+    const frameContext: CanvasRenderContext = { ...context, elements: visibleElements };
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(
+      devicePixelRatio * viewport.zoom,
+      0,
+      0,
+      devicePixelRatio * viewport.zoom,
+      devicePixelRatio * viewport.offset.x,
+      devicePixelRatio * viewport.offset.y
+    );
+
+    [...this.layers.keys()]
+      .sort((a, b) => a - b)
+      .forEach((layer) => {
+        this.layers.get(layer)?.forEach((renderer) => {
+          ctx.save();
+          renderer(frameContext);
+          ctx.restore();
+        });
+      });
+
+    ctx.restore();
+
+    this.updateMetrics(startTime, context.elements.length, visibleElements.length);
+    return this.getMetrics();
+  }
+
+  getMetrics(): CanvasPerformanceMetrics {
+    return { ...this.metrics };
+  }
+
+  private updateMetrics(startTime: number, elementCount: number, visibleElementCount: number) {
+    const endTime = now();
+    let { frameRate } = this.metrics;
+
+    if (this.lastFrameTime !== null) {
+      const interval = startTime - this.lastFrameTime;
+      if (interval > 0 && interval < MAX_FRAME_INTERVAL) {
+        const instantRate = 1000 / interval;
+        frameRate =
+          frameRate === 0
+            ? instantRate
+            : frameRate + (instantRate - frameRate) * FRAME_RATE_SMOOTHING;
+      } else {
+        frameRate = 0;
+      }
+    }
+    this.lastFrameTime = startTime;
+
+    const memoryUsage = getMemoryUsage();
+    this.metrics = {
+      renderTime: endTime - startTime,
+      elementCount,
+      visibleElementCount,
+      frameRate,
+      ...(memoryUsage !== undefined && { memoryUsage }),
+    };
+  }
+
+  private drawBackground({ ctx, viewport }: CanvasRenderContext) {
+    const area = getVisibleArea(viewport);
+    ctx.fillStyle = this.options.backgroundColor;
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+  }
+
+  private drawGrid({ ctx, viewport }: CanvasRenderContext) {
+    const { gridVisible, gridSize, gridStyle, gridColor } = this.options;
+    if (!gridVisible || gridSize <= 0) {
+      return;
+    }
+
+    // Skip lines when zoomed out far enough for the grid to turn into noise
+    let spacing = gridSize;
+    while (spacing * viewport.zoom < MIN_GRID_SPACING) {
+      spacing *= 2;
+    }
+
+    const area = getVisibleArea(viewport);
+    const startX = Math.floor(area.x / spacing) * spacing;
+    const startY = Math.floor(area.y / spacing) * spacing;
+    const endX = area.x + area.width;
+    const endY = area.y + area.height;
+    const pixel = 1 / viewport.zoom;
+
+    ctx.fillStyle = gridColor;
+    ctx.strokeStyle = gridColor;
+    ctx.lineWidth = pixel;
+
+    if (gridStyle === 'dots') {
+      const radius = 1.5 * pixel;
+      for (let x = startX; x <= endX; x += spacing) {
+        for (let y = startY; y <= endY; y += spacing) {
+          ctx.fillRect(x - radius / 2, y - radius / 2, radius, radius);
+        }
+      }
+      return;
+    }
+
+    ctx.beginPath();
+    for (let x = startX; x <= endX; x += spacing) {
+      ctx.moveTo(x, area.y);
+      ctx.lineTo(x, endY);
+    }
+    for (let y = startY; y <= endY; y += spacing) {
+      ctx.moveTo(area.x, y);
+      ctx.lineTo(endX, y);
+    }
+    ctx.stroke();
+  }
+
+  private drawElements(context: CanvasRenderContext, layer: RenderLayer) {
+    const { ctx, elements, viewport, devicePixelRatio } = context;
+    const pixelScale = viewport.zoom * devicePixelRatio;
+    const sorted = sortByZIndex(elements.filter((element) => getElementLayer(element) === layer));
+
+    // Labels higher up the stack are placed first and keep their preferred spot
+    const labelPositions =
+      layer === RenderLayer.CONNECTORS
+        ? layoutConnectorLabels(
+            sorted
+              .filter((element): element is Connector => element.type === ElementType.CONNECTOR)
+              .reverse(),
+            (label) => measureConnectorLabel(ctx, label)
+          )
+        : new Map();
+
+    sorted.forEach((element) => {
+      switch (element.type) {
+        case ElementType.CONNECTOR:
+          drawConnector(ctx, element, labelPositions.get(element.id));
+          break;
+        case ElementType.STICKY_NOTE:
+          drawStickyNote(ctx, element, pixelScale);
+          break;
+        case ElementType.SHAPE:
+          drawShape(ctx, element);
+          break;
+        case ElementType.TEXT:
+          drawTextElement(ctx, element);
+          break;
+        case ElementType.FRAME:
+          drawFrame(ctx, element);
+          break;
+        case ElementType.FREEHAND:
+          drawFreehand(ctx, element);
+          break;
+      }
+    });
+  }
+
+  private drawSelection({
+    ctx,
+    elements,
+    selectedElements,
+    hoveredElement,
+    selectionBox,
+    viewport,
+  }: CanvasRenderContext) {
+    const { selectionColor } = this.options;
+    const pixel = 1 / viewport.zoom;
+
+    ctx.strokeStyle = selectionColor;
+
+    if (hoveredElement && !selectedElements.has(hoveredElement.id)) {
+      ctx.globalAlpha = 0.5;
+      ctx.lineWidth = pixel;
+      this.strokeElementOutline(ctx, hoveredElement, 2 * pixel);
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.lineWidth = 2 * pixel;
+    elements
+      .filter((element) => selectedElements.has(element.id))
+      .forEach((element) => this.strokeElementOutline(ctx, element, 2 * pixel));
+
+    if (selectionBox) {
+      this.drawSelectionBox(ctx, selectionBox, pixel);
+    }
+  }
+
+  private strokeElementOutline(
+    ctx: CanvasRenderingContext2D,
+    element: DiagramElement,
+    padding: number
+  ) {
+    const [first, ...rest] = getRotatedRectangleCorners(
+      expandRectangle(getElementBounds(element), padding),
+      element.rotation ?? 0
+    );
+
+    if (!first) {
+      return;
+    }
+
+    ctx.beginPath();
+    ctx.moveTo(first.x, first.y);
+    rest.forEach((corner) => ctx.lineTo(corner.x, corner.y));
+    ctx.closePath();
+    ctx.stroke();
+  }
+
+  private drawSelectionBox(ctx: CanvasRenderingContext2D, box: Rectangle, pixel: number) {
+    // Normalize boxes dragged up or to the left
+    const x = Math.min(box.x, box.x + box.width);
+    const y = Math.min(box.y, box.y + box.height);
+    const width = Math.abs(box.width);
+    const height = Math.abs(box.height);
+
+    ctx.fillStyle = this.options.selectionColor;
+    ctx.globalAlpha = 0.1;
+    ctx.fillRect(x, y, width, height);
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = pixel;
+    ctx.setLineDash([4 * pixel, 4 * pixel]);
+    ctx.strokeRect(x, y, width, height);
+  }
+
+  private drawHandles({ ctx, handles, viewport }: CanvasRenderContext) {
+    if (!handles || handles.length === 0) {
+      return;
+    }
+
+    const pixel = 1 / viewport.zoom;
+    const size = HANDLE_SIZE * pixel;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = this.options.selectionColor;
+    ctx.lineWidth = pixel;
+
+    handles.forEach(({ position, type }) => {
+      ctx.beginPath();
+      if (type === 'rotate') {
+        ctx.arc(position.x, position.y, size / 2, 0, Math.PI * 2);
+      } else {
+        ctx.rect(position.x - size / 2, position.y - size / 2, size, size);
+      }
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+
+  private drawConnectionHints({
+    ctx,
+    connectionHints,
+    connectionPreview,
+    viewport,
+  }: CanvasRenderContext) {
+    const { selectionColor, invalidColor } = this.options;
+    const pixel = 1 / viewport.zoom;
+
+    if (connectionPreview) {
+      ctx.strokeStyle = selectionColor;
+      ctx.lineWidth = 2 * pixel;
+      ctx.setLineDash([6 * pixel, 4 * pixel]);
+      ctx.beginPath();
+      ctx.moveTo(connectionPreview.start.x, connectionPreview.start.y);
+      ctx.lineTo(connectionPreview.end.x, connectionPreview.end.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.lineWidth = pixel;
+    connectionHints?.forEach(({ position, valid, active }) => {
+      const color = valid ? selectionColor : invalidColor;
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, (HANDLE_SIZE / 2) * pixel, 0, Math.PI * 2);
+      ctx.fillStyle = active ? color : '#ffffff';
+      ctx.strokeStyle = color;
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+
+  private drawDrawingPreview({ ctx, drawingPreview, viewport }: CanvasRenderContext) {
+    if (!drawingPreview) {
+      return;
+    }
+
+    const { tool, bounds, points } = drawingPreview;
+    const pixel = 1 / viewport.zoom;
+
+    ctx.strokeStyle = this.options.selectionColor;
+    ctx.lineWidth = pixel;
+    ctx.beginPath();
+
+    if (points) {
+      const [first, ...rest] = points;
+      if (!first) {
+        return;
+      }
+      ctx.lineWidth = 2 * pixel;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.moveTo(first.x, first.y);
+      rest.forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      return;
+    }
+
+    const { x, y, width, height } = bounds;
+    ctx.setLineDash([4 * pixel, 4 * pixel]);
+    if (tool === Tool.ELLIPSE) {
+      ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    } else if (tool === Tool.DIAMOND) {
+      ctx.moveTo(x + width / 2, y);
+      ctx.lineTo(x + width, y + height / 2);
+      ctx.lineTo(x + width / 2, y + height);
+      ctx.lineTo(x, y + height / 2);
+      ctx.closePath();
+    } else {
+      ctx.rect(x, y, width, height);
+    }
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  private drawSnapGuides({ ctx, snapGuides, viewport }: CanvasRenderContext) {
+    if (!snapGuides || snapGuides.length === 0) {
+      return;
+    }
+
+    const pixel = 1 / viewport.zoom;
+    const tick = (HANDLE_SIZE / 2) * pixel;
+
+    ctx.strokeStyle = this.options.guideColor;
+    ctx.lineWidth = pixel;
+
+    snapGuides.forEach(({ kind, start, end }) => {
+      ctx.setLineDash(kind === 'center' ? [4 * pixel, 4 * pixel] : []);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+
+      // Gaps get a tick across each end
+      if (kind === 'spacing') {
+        const horizontal = start.y === end.y;
+        [start, end].forEach(({ x, y }) => {
+          ctx.moveTo(horizontal ? x : x - tick, horizontal ? y - tick : y);
+          ctx.lineTo(horizontal ? x : x + tick, horizontal ? y + tick : y);
+        });
+      }
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Connector routing
+ * Orthogonal routes are found with A* on a sparse grid made of the edges of the notes to
+ * avoid, so the search stays small however far apart the endpoints are. Routes are
+ * returned as waypoints to be stored in Connector.points.
+ */
+
+import type { Point, Rectangle } from '@/types/common';
+import { type Connector, type DiagramElement, ElementType } from '@/types/elements';
+
+import {
+  distance,
+  expandRectangle,
+  getElementBounds,
+  getPointsBounds,
+  getRotatedElementBounds,
+  rotatePoint,
+  toElementSpace,
+} from './geometry';
+
+/** Clearance kept between orthogonal routes and the notes they avoid */
+export const ROUTING_MARGIN = 16;
+
+/** Corner radius given to orthogonal connectors that do not set one */
+export const DEFAULT_CORNER_RADIUS = 8;
+
+/** Extra cost of every bend, so routes prefer fewer corners over slightly shorter ones */
+const BEND_PENALTY = 2 * ROUTING_MARGIN;
+
+/** Elements that orthogonal routes go around; frames and pen strokes are crossed */
+const OBSTACLE_TYPES = new Set([ElementType.STICKY_NOTE, ElementType.SHAPE, ElementType.TEXT]);
+
+/** Unit vectors of the four routing directions */
+const DIRECTIONS: Point[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+/** Grid node reached from a direction, with its A* costs */
+interface SearchNode {
+  column: number;
+  row: number;
+  /** Index into DIRECTIONS of the last step, -1 at the start */
+  direction: number;
+  cost: number;
+  estimate: number;
+  parent: SearchNode | null;
+}
+
+/**
+ * Minimal binary heap ordered by estimated total cost
+ */
+class NodeQueue {
+  private readonly nodes: SearchNode[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: SearchNode): void {
+    const { nodes } = this;
+    nodes.push(node);
+
+    let index = nodes.length - 1;
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = nodes[parentIndex];
+      if (!parent || parent.estimate <= node.estimate) {
+        break;
+      }
+      nodes[index] = parent;
+      index = parentIndex;
+    }
+    nodes[index] = node;
+  }
+
+  pop(): SearchNode | undefined {
+    const { nodes } = this;
+    const top = nodes[0];
+    const last = nodes.pop();
+    if (!top || !last || nodes.length === 0) {
+      return top;
+    }
+
+    let index = 0;
+    let child = this.getSmallerChild(index);
+    while (child && child.node.estimate < last.estimate) {
+      const { index: childIndex, node } = child;
+      nodes[index] = node;
+      index = childIndex;
+      child = this.getSmallerChild(index);
+    }
+    nodes[index] = last;
+    return top;
+  }
+
+  private getSmallerChild(index: number): { index: number; node: SearchNode } | null {
+    const leftIndex = index * 2 + 1;
+    const left = this.nodes[leftIndex];
+    const right = this.nodes[leftIndex + 1];
+    if (!left) {
+      return null;
+    }
+    return right && right.estimate < left.estimate
+      ? { index: leftIndex + 1, node: right }
+      : { index: leftIndex, node: left };
+  }
+}
+
+/**
+ * Outward direction of the side of an element an endpoint sits on, snapped to an axis
+ */
+export function getEndpointDirection(element: DiagramElement | undefined, position: Point): Point {
+  if (!element || element.type === ElementType.CONNECTOR) {
+    return { x: 0, y: 0 };
+  }
+
+  const bounds = getElementBounds(element);
+  const local = toElementSpace(element, position);
+  const edges = [
+    local.y - bounds.y,
+    bounds.x + bounds.width - local.x,
+    bounds.y + bounds.height - local.y,
+    local.x - bounds.x,
+  ].map(Math.abs);
+  const side = DIRECTIONS[edges.indexOf(Math.min(...edges))] ?? { x: 0, y: 0 };
+
+  const rotated = rotatePoint(side, { x: 0, y: 0 }, element.rotation ?? 0);
+  return Math.abs(rotated.x) >= Math.abs(rotated.y)
+    ? { x: Math.sign(rotated.x), y: 0 }
+    : { x: 0, y: Math.sign(rotated.y) };
+}
+
+/**
+ * Whether an axis-aligned segment passes through the inside of a rectangle
+ */
+function segmentCrossesRectangle(a: Point, b: Point, rect: Rectangle): boolean {
+  return (
+    Math.max(a.x, b.x) > rect.x &&
+    Math.min(a.x, b.x) < rect.x + rect.width &&
+    Math.max(a.y, b.y) > rect.y &&
+    Math.min(a.y, b.y) < rect.y + rect.height
+  );
+}
+
+function pointInsideRectangle(point: Point, rect: Rectangle): boolean {
+  return segmentCrossesRectangle(point, point, rect);
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Drop points that lie on a straight line between their neighbours
+ */
+function removeCollinearPoints(points: Point[]): Point[] {
+  return points.filter((point, index) => {
+    const previous = points[index - 1];
+    const next = points[index + 1];
+    if (!previous || !next) {
+      return true;
+    }
+    if (point.x === previous.x && point.y === previous.y) {
+      return false;
+    }
+    return !(
+      (previous.x === point.x && point.x === next.x) ||
+      (previous.y === point.y && point.y === next.y)
+    );
+  });
+}
+
+/**
+ * Elbow route used when no path around the obstacles exists
+ */
+function getElbowRoute(from: Point, to: Point, startDirection: Point): Point[] {
+  if (startDirection.y !== 0) {
+    const middle = (from.y + to.y) / 2;
+    return [from, { x: from.x, y: middle }, { x: to.x, y: middle }, to];
+  }
+  const middle = (from.x + to.x) / 2;
+  return [from, { x: middle, y: from.y }, { x: middle, y: to.y }, to];
+}
+
+/**
+ * Route an orthogonal path between two endpoints around obstacles
+ * @param startDirection Direction in which the route leaves the start
+ * @param endDirection Direction in which the route leaves the end (pointing away from it)
+ * @param obstacles Rectangles to avoid, e.g. the bounds of sticky notes
+ * @returns Waypoints between start and end
+ */
+export function routeOrthogonal(
+  start: Point,
+  startDirection: Point,
+  end: Point,
+  endDirection: Point,
+  obstacles: Rectangle[]
+): Point[] {
+  // Routes leave and enter their notes straight before turning
+  const from = {
+    x: start.x + startDirection.x * ROUTING_MARGIN,
+    y: start.y + startDirection.y * ROUTING_MARGIN,
+  };
+  const to = {
+    x: end.x + endDirection.x * ROUTING_MARGIN,
+    y: end.y + endDirection.y * ROUTING_MARGIN,
+  };
+
+  const blocked = obstacles.map((obstacle) => expandRectangle(obstacle, ROUTING_MARGIN - 1));
+  const columns = uniqueSorted([
+    from.x,
+    to.x,
+    (from.x + to.x) / 2,
+    ...blocked.flatMap((rect) => [rect.x, rect.x + rect.width]),
+  ]);
+  const rows = uniqueSorted([
+    from.y,
+    to.y,
+    (from.y + to.y) / 2,
+    ...blocked.flatMap((rect) => [rect.y, rect.y + rect.height]),
+  ]);
+
+  const startColumn = columns.indexOf(from.x);
+  const startRow = rows.indexOf(from.y);
+  const goalColumn = columns.indexOf(to.x);
+  const goalRow = rows.indexOf(to.y);
+  const pointAt = (column: number, row: number): Point => ({
+    x: columns[column] ?? 0,
+    y: rows[row] ?? 0,
+  });
+
+  const isEnd = (column: number, row: number) =>
+    (column === startColumn && row === startRow) || (column === goalColumn && row === goalRow);
+
+  // The ends are always usable, even when a neighbouring note's clearance covers them,
+  // and steps to or from an end may cross that clearance
+  const isOpen = (column: number, row: number) =>
+    isEnd(column, row) || !blocked.some((rect) => pointInsideRectangle(pointAt(column, row), rect));
+  const isStepBlocked = (a: Point, b: Point, endPoint: Point | null) =>
+    blocked.some(
+      (rect) =>
+        segmentCrossesRectangle(a, b, rect) && !(endPoint && pointInsideRectangle(endPoint, rect))
+    );
+
+  const startDirectionIndex = DIRECTIONS.findIndex(
+    (direction) => direction.x === startDirection.x && direction.y === startDirection.y
+  );
+  const arrivalDirectionIndex = DIRECTIONS.findIndex(
+    (direction) => direction.x === -endDirection.x && direction.y === -endDirection.y
+  );
+
+  const heuristic = (column: number, row: number) => {
+    const point = pointAt(column, row);
+    return Math.abs(point.x - to.x) + Math.abs(point.y - to.y);
+  };
+
+  const queue = new NodeQueue();
+  const bestCosts = new Map<string, number>();
+  queue.push({
+    column: startColumn,
+    row: startRow,
+    direction: startDirectionIndex,
+    cost: 0,
+    estimate: heuristic(startColumn, startRow),
+    parent: null,
+  });
+
+  let found: SearchNode | null = null;
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (!node) {
+      break;
+    }
+    if (node.column === goalColumn && node.row === goalRow) {
+      found = node;
+      break;
+    }
+
+    const key = `${node.column},${node.row},${node.direction}`;
+    if ((bestCosts.get(key) ?? Infinity) < node.cost) {
+      continue;
+    }
+
+    DIRECTIONS.forEach((direction, directionIndex) => {
+      const column = node.column + direction.x;
+      const row = node.row + direction.y;
+      if (column < 0 || row < 0 || column >= columns.length || row >= rows.length) {
+        return;
+      }
+      // Turning back on the same line is never useful
+      if (node.direction !== -1 && Math.abs(node.direction - directionIndex) === 2) {
+        return;
+      }
+
+      const a = pointAt(node.column, node.row);
+      const b = pointAt(column, row);
+      const endPoint = isEnd(node.column, node.row) ? a : isEnd(column, row) ? b : null;
+      if (!isOpen(column, row) || isStepBlocked(a, b, endPoint)) {
+        return;
+      }
+
+      const isGoal = column === goalColumn && row === goalRow;
+      const bends =
+        (node.direction !== -1 && node.direction !== directionIndex ? 1 : 0) +
+        (isGoal && arrivalDirectionIndex !== -1 && directionIndex !== arrivalDirectionIndex
+          ? 1
+          : 0);
+      const cost = node.cost + distance(a, b) + bends * BEND_PENALTY;
+
+      const nextKey = `${column},${row},${directionIndex}`;
+      if (cost >= (bestCosts.get(nextKey) ?? Infinity)) {
+        return;
+      }
+      bestCosts.set(nextKey, cost);
+      queue.push({
+        column,
+        row,
+        direction: directionIndex,
+        cost,
+        estimate: cost + heuristic(column, row),
+        parent: node,
+      });
+    });
+  }
+
+  if (!found) {
+    return removeCollinearPoints([start, ...getElbowRoute(from, to, startDirection), end]).slice(
+      1,
+      -1
+    );
+  }
+
+  const route: Point[] = [];
+  for (let node: SearchNode | null = found; node; node = node.parent) {
+    route.unshift(pointAt(node.column, node.row));
+  }
+  return removeCollinearPoints([start, ...route, end]).slice(1, -1);
+}
+
+/**
+ * Control points of a cubic curve that leaves and enters the endpoints head-on
+ */
+export function getCurvedControlPoints(
+  start: Point,
+  startDirection: Point,
+  end: Point,
+  endDirection: Point
+): Point[] {
+  const reach = Math.max(distance(start, end) / 3, 2 * ROUTING_MARGIN);
+  return [
+    { x: start.x + startDirection.x * reach, y: start.y + startDirection.y * reach },
+    { x: end.x + endDirection.x * reach, y: end.y + endDirection.y * reach },
+  ];
+}
+
+/**
+ * Area whose notes can affect the route of a connector
+ */
+export function getRoutingArea(connector: Connector): Rectangle {
+  const bounds = getPointsBounds([connector.startElement.position, connector.endElement.position]);
+  return expandRectangle(bounds, Math.max(bounds.width, bounds.height) / 2 + 4 * ROUTING_MARGIN);
+}
+
+/**
+ * Compute the points of a connector for its routing mode
+ * @param elements Elements around the connector, including the notes it is attached to
+ */
+export function routeConnector(connector: Connector, elements: DiagramElement[]): Point[] {
+  const { routing, startElement, endElement } = connector;
+  if (routing !== 'orthogonal' && routing !== 'curved') {
+    return routing === 'straight' ? [] : connector.points;
+  }
+
+  const byId = new Map(elements.map((element) => [element.id, element]));
+  const startDirection = getEndpointDirection(
+    byId.get(startElement.elementId),
+    startElement.position
+  );
+  const endDirection = getEndpointDirection(byId.get(endElement.elementId), endElement.position);
+
+  if (routing === 'curved') {
+    return getCurvedControlPoints(
+      startElement.position,
+      startDirection,
+      endElement.position,
+      endDirection
+    );
+  }
+
+  const obstacles = elements
+    .filter((element) => OBSTACLE_TYPES.has(element.type) && element.visible !== false)
+    .map(getRotatedElementBounds);
+
+  return routeOrthogonal(
+    startElement.position,
+    startDirection,
+    endElement.position,
+    endDirection,
+    obstacles
+  );
+}
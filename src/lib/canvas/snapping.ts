@@ -0,0 +1,244 @@
+/**
+ * Snapping of moved and resized selections
+ * With grid snapping on, positions snap to the grid. Otherwise a selection snaps to the
+ * edges and centers of nearby elements and to gaps equal to the ones between them, and
+ * guides show what it lines up with.
+ */
+
+import type { SnapGuide } from '@/types/canvas';
+import type { Point, Rectangle } from '@/types/common';
+import type { UserPreferences } from '@/types/ui';
+
+/** Preferences that control snapping */
+export type SnapPreferences = Pick<UserPreferences, 'snapToGrid' | 'gridSize'>;
+
+export const DEFAULT_SNAP_PREFERENCES: SnapPreferences = {
+  snapToGrid: false,
+  gridSize: 20,
+};
+
+/** Distance in screen pixels within which a selection snaps */
+export const SNAP_DISTANCE = 8;
+
+/** Positions closer than this in world units count as lined up */
+const ALIGNMENT_TOLERANCE = 0.5;
+
+type Axis = 'x' | 'y';
+
+const AXES: Axis[] = ['x', 'y'];
+
+const SIZE_KEYS = { x: 'width', y: 'height' } as const;
+
+const CROSS_AXES: Record<Axis, Axis> = { x: 'y', y: 'x' };
+
+/** Axes a snap may adjust */
+export type SnapAxes = Record<Axis, boolean>;
+
+/** Position of a candidate for the moving rectangle that makes gaps equal */
+interface SpacingCandidate {
+  /** Start of the moving rectangle on the axis */
+  start: number;
+  /** Gaps that are equal with the rectangle at that start, as [before, after] rectangles */
+  gaps: [Rectangle, Rectangle][];
+}
+
+function getStart(rect: Rectangle, axis: Axis): number {
+  return rect[axis];
+}
+
+function getEnd(rect: Rectangle, axis: Axis): number {
+  return rect[axis] + rect[SIZE_KEYS[axis]];
+}
+
+/**
+ * Start, center and end of a rectangle on an axis
+ */
+function getLines(rect: Rectangle, axis: Axis): [number, number, number] {
+  const start = getStart(rect, axis);
+  const end = getEnd(rect, axis);
+  return [start, (start + end) / 2, end];
+}
+
+function overlapsOnAxis(a: Rectangle, b: Rectangle, axis: Axis): boolean {
+  return getStart(a, axis) < getEnd(b, axis) && getStart(b, axis) < getEnd(a, axis);
+}
+
+function moveOnAxis(rect: Rectangle, axis: Axis, start: number): Rectangle {
+  return { ...rect, [axis]: start };
+}
+
+/**
+ * Positions of a rectangle on an axis at which its gaps to its neighbours are equal
+ * Only elements beside the rectangle on the other axis count: it can sit midway between
+ * its two neighbours, or continue the spacing of a pair of elements on either side.
+ */
+function getSpacingCandidates(
+  rect: Rectangle,
+  others: Rectangle[],
+  axis: Axis
+): SpacingCandidate[] {
+  const beside = others.filter((other) => overlapsOnAxis(rect, other, CROSS_AXES[axis]));
+  const center = getLines(rect, axis)[1];
+  const size = rect[SIZE_KEYS[axis]];
+
+  const closestBefore = (limit: number) =>
+    beside
+      .filter((other) => getEnd(other, axis) <= limit)
+      .sort((a, b) => getEnd(b, axis) - getEnd(a, axis))[0];
+  const closestAfter = (limit: number) =>
+    beside
+      .filter((other) => getStart(other, axis) >= limit)
+      .sort((a, b) => getStart(a, axis) - getStart(b, axis))[0];
+
+  const before = closestBefore(center);
+  const after = closestAfter(center);
+  const candidates: SpacingCandidate[] = [];
+  const addCandidate = (start: number, gaps: (moved: Rectangle) => [Rectangle, Rectangle][]) =>
+    candidates.push({ start, gaps: gaps(moveOnAxis(rect, axis, start)) });
+
+  if (before && after && getStart(after, axis) - getEnd(before, axis) >= size) {
+    addCandidate((getEnd(before, axis) + getStart(after, axis) - size) / 2, (moved) => [
+      [before, moved],
+      [moved, after],
+    ]);
+  }
+
+  const beforePair = before && closestBefore(getStart(before, axis));
+  if (before && beforePair) {
+    const gap = getStart(before, axis) - getEnd(beforePair, axis);
+    addCandidate(getEnd(before, axis) + gap, (moved) => [
+      [beforePair, before],
+      [before, moved],
+    ]);
+  }
+
+  const afterPair = after && closestAfter(getEnd(after, axis));
+  if (after && afterPair) {
+    const gap = getStart(afterPair, axis) - getEnd(after, axis);
+    addCandidate(getStart(after, axis) - gap - size, (moved) => [
+      [moved, after],
+      [after, afterPair],
+    ]);
+  }
+
+  return candidates;
+}
+
+/**
+ * Offset on one axis to the closest line or spacing within the threshold, or 0
+ */
+function getAxisSnapOffset(
+  rect: Rectangle,
+  others: Rectangle[],
+  axis: Axis,
+  threshold: number,
+  spacing: boolean
+): number {
+  let best: number | null = null;
+  const consider = (offset: number) => {
+    if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+      best = offset;
+    }
+  };
+
+  const lines = getLines(rect, axis);
+  others.forEach((other) => {
+    getLines(other, axis).forEach((target) => lines.forEach((line) => consider(target - line)));
+  });
+  if (spacing) {
+    getSpacingCandidates(rect, others, axis).forEach(({ start }) =>
+      consider(start - getStart(rect, axis))
+    );
+  }
+
+  return best ?? 0;
+}
+
+/**
+ * Offset that snaps a point to the grid
+ */
+export function getGridSnapOffset(point: Point, gridSize: number): Point {
+  if (gridSize <= 0) {
+    return { x: 0, y: 0 };
+  }
+  return {
+    x: Math.round(point.x / gridSize) * gridSize - point.x,
+    y: Math.round(point.y / gridSize) * gridSize - point.y,
+  };
+}
+
+/**
+ * Offset that lines a rectangle up with other elements
+ * A rectangle without size snaps as a point, e.g. the edge dragged in a resize.
+ * @param others Bounds of the elements to snap to
+ * @param threshold Largest offset on each axis in world units
+ * @param options spacing: also snap to gaps equal to the ones between the other elements
+ */
+export function getSnapOffset(
+  rect: Rectangle,
+  others: Rectangle[],
+  threshold: number,
+  options: { spacing?: boolean; axes?: SnapAxes } = {}
+): Point {
+  const { spacing = false, axes = { x: true, y: true } } = options;
+  return {
+    x: axes.x ? getAxisSnapOffset(rect, others, 'x', threshold, spacing) : 0,
+    y: axes.y ? getAxisSnapOffset(rect, others, 'y', threshold, spacing) : 0,
+  };
+}
+
+/**
+ * Guides along the lines a rectangle shares with other elements, and across the gaps
+ * that are equal to its own
+ */
+export function getSnapGuides(
+  rect: Rectangle,
+  others: Rectangle[],
+  options: { spacing?: boolean } = {}
+): SnapGuide[] {
+  return AXES.flatMap((axis) => {
+    const cross = CROSS_AXES[axis];
+    const at = (value: number, crossValue: number) =>
+      axis === 'x' ? { x: value, y: crossValue } : { x: crossValue, y: value };
+
+    // A line across the axis through every element on it
+    const alignmentGuides = getLines(rect, axis).flatMap((line, index): SnapGuide[] => {
+      const aligned = others.filter((other) =>
+        getLines(other, axis).some((target) => Math.abs(target - line) <= ALIGNMENT_TOLERANCE)
+      );
+      if (aligned.length === 0) {
+        return [];
+      }
+
+      const spanned = [rect, ...aligned];
+      return [
+        {
+          kind: index === 1 ? 'center' : 'edge',
+          start: at(line, Math.min(...spanned.map((other) => getStart(other, cross)))),
+          end: at(line, Math.max(...spanned.map((other) => getEnd(other, cross)))),
+        },
+      ];
+    });
+
+    // A line along the axis through the middle of each equal gap
+    const spacingGuides = options.spacing
+      ? getSpacingCandidates(rect, others, axis)
+          .filter(({ start }) => Math.abs(start - getStart(rect, axis)) <= ALIGNMENT_TOLERANCE)
+          .flatMap(({ gaps }) =>
+            gaps.map(([before, after]): SnapGuide => {
+              const middle =
+                (Math.max(getStart(before, cross), getStart(after, cross)) +
+                  Math.min(getEnd(before, cross), getEnd(after, cross))) /
+                2;
+              return {
+                kind: 'spacing',
+                start: at(getEnd(before, axis), middle),
+                end: at(getStart(after, axis), middle),
+              };
+            })
+          )
+      : [];
+
+    return [...alignmentGuides, ...spacingGuides];
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Quadtree spatial index for rectangle queries
+ * Entries are stored in the smallest node that fully contains them, so large items stay
+ * near the root while small ones sink into the tree. The root grows when items are
+ * added outside its bounds.
+ */
+
+import type { ID, Rectangle } from '@/types/common';
+
+import { rectangleContainsRectangle, rectanglesIntersect } from './geometry';
+
+/** Entries a node holds before it is split */
+const MAX_NODE_ENTRIES = 16;
+
+/** Maximum tree depth */
+const MAX_DEPTH = 12;
+
+/** Size of the root before any entry was added */
+const INITIAL_ROOT_SIZE = 4096;
+
+interface IndexEntry<T> {
+  id: ID;
+  bounds: Rectangle;
+  item: T;
+}
+
+interface QuadNode<T> {
+  bounds: Rectangle;
+  depth: number;
+  entries: IndexEntry<T>[];
+  children: QuadNode<T>[] | null;
+}
+
+function createNode<T>(bounds: Rectangle, depth: number): QuadNode<T> {
+  return { bounds, depth, entries: [], children: null };
+}
+
+/**
+ * Spatial index mapping IDs to items with rectangular bounds
+ */
+export class SpatialIndex<T> {
+  private root: QuadNode<T> = createNode(
+    {
+      x: -INITIAL_ROOT_SIZE / 2,
+      y: -INITIAL_ROOT_SIZE / 2,
+      width: INITIAL_ROOT_SIZE,
+      height: INITIAL_ROOT_SIZE,
+    },
+    0
+  );
+
+  /** Node holding each entry, for constant time removal */
+  private readonly locations = new Map<ID, { entry: IndexEntry<T>; node: QuadNode<T> }>();
+
+  /** Cached union of all entry bounds; null when it has to be recomputed */
+  private totalBounds: Rectangle | null = null;
+
+  get size(): number {
+    return this.locations.size;
+  }
+
+  has(id: ID): boolean {
+    return this.locations.has(id);
+  }
+
+  get(id: ID): T | undefined {
+    return this.locations.get(id)?.entry.item;
+  }
+
+  /**
+   * Add an item, replacing any item with the same ID
+   */
+  insert(id: ID, bounds: Rectangle, item: T): void {
+    this.remove(id);
+
+    const entry: IndexEntry<T> = { id, bounds: { ...bounds }, item };
+    if (!rectangleContainsRectangle(this.root.bounds, entry.bounds)) {
+      this.growRoot(entry.bounds);
+    }
+
+    this.insertEntry(this.root, entry);
+
+    if (this.totalBounds && this.locations.size > 1) {
+      this.totalBounds = this.union(this.totalBounds, entry.bounds);
+    } else {
+      this.totalBounds = null;
+    }
+  }
+
+  remove(id: ID): boolean {
+    const location = this.locations.get(id);
+    if (!location) {
+      return false;
+    }
+
+    const { node, entry } = location;
+    node.entries.splice(node.entries.indexOf(entry), 1);
+    this.locations.delete(id);
+    this.totalBounds = null;
+    return true;
+  }
+
+  clear(): void {
+    this.root = createNode(this.root.bounds, 0);
+    this.locations.clear();
+    this.totalBounds = null;
+  }
+
+  /**
+   * Replace the whole content of the index
+   */
+  load(entries: { id: ID; bounds: Rectangle; item: T }[]): void {
+    this.clear();
+    entries.forEach(({ id, bounds, item }) => this.insert(id, bounds, item));
+  }
+
+  /**
+   * Items whose bounds intersect an area
+   */
+  search(area: Rectangle): T[] {
+    const result: T[] = [];
+    const stack: QuadNode<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop();
+      if (!node || !rectanglesIntersect(node.bounds, area)) {
+        continue;
+      }
+
+      node.entries.forEach((entry) => {
+        if (rectanglesIntersect(entry.bounds, area)) {
+          result.push(entry.item);
+        }
+      });
+
+      if (node.children) {
+        stack.push(...node.children);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Union of the bounds of all items, or null when the index is empty
+   */
+  getBounds(): Rectangle | null {
+    if (this.locations.size === 0) {
+      return null;
+    }
+
+    if (!this.totalBounds) {
+      let bounds: Rectangle | null = null;
+      this.locations.forEach(({ entry }) => {
+        bounds = bounds ? this.union(bounds, entry.bounds) : { ...entry.bounds };
+      });
+      this.totalBounds = bounds;
+    }
+
+    return this.totalBounds ? { ...this.totalBounds } : null;
+  }
+
+  private union(a: Rectangle, b: Rectangle): Rectangle {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+      x,
+      y,
+      width: Math.max(a.x + a.width, b.x + b.width) - x,
+      height: Math.max(a.y + a.height, b.y + b.height) - y,
+    };
+  }
+
+  private insertEntry(node: QuadNode<T>, entry: IndexEntry<T>): void {
+    let target = node;
+
+    while (target.children) {
+      const child = target.children.find((candidate) =>
+        rectangleContainsRectangle(candidate.bounds, entry.bounds)
+      );
+      if (!child) {
+        break;
+      }
+      target = child;
+    }
+
+    target.entries.push(entry);
+    this.locations.set(entry.id, { entry, node: target });
+
+    if (!target.children && target.entries.length > MAX_NODE_ENTRIES && target.depth < MAX_DEPTH) {
+      this.split(target);
+    }
+  }
+
+  private split(node: QuadNode<T>): void {
+    const { x, y, width, height } = node.bounds;
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+    const depth = node.depth + 1;
+
+    node.children = [
+      createNode<T>({ x, y, width: halfWidth, height: halfHeight }, depth),
+      createNode<T>({ x: x + halfWidth, y, width: halfWidth, height: halfHeight }, depth),
+      createNode<T>({ x, y: y + halfHeight, width: halfWidth, height: halfHeight }, depth),
+      createNode<T>(
+        { x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight },
+        depth
+      ),
+    ];
+
+    // Push entries down into the children that fully contain them
+    const { entries } = node;
+    node.entries = [];
+    entries.forEach((entry) => this.insertEntry(node, entry));
+  }
+
+  /**
+   * Enlarge the root until it contains the given bounds, then rebuild the tree
+   */
+  private growRoot(bounds: Rectangle): void {
+    let rootBounds = { ...this.root.bounds };
+
+    // The iteration limit guards against non-finite bounds
+    for (let step = 0; step < 64 && !rectangleContainsRectangle(rootBounds, bounds); step += 1) {
+      rootBounds = {
+        x: rootBounds.x - rootBounds.width / 2,
+        y: rootBounds.y - rootBounds.height / 2,
+        width: rootBounds.width * 2,
+        height: rootBounds.height * 2,
+      };
+    }
+
+    const entries = [...this.locations.values()].map(({ entry }) => entry);
+    this.root = createNode(rootBounds, 0);
+    this.locations.clear();
+    entries.forEach((entry) => this.insertEntry(this.root, entry));
+  }
+}
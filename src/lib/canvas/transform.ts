@@ -0,0 +1,341 @@
+/**
+ * Resizing and rotating selections
+ * A selection is transformed through its frame: the rotated bounds of a single element,
+ * or the axis-aligned bounds of several. Results are absolute, so a gesture can be
+ * recomputed from the elements as they were when it started.
+ */
+
+import type { Point, Rectangle, Size } from '@/types/common';
+import {
+  type DiagramElement,
+  type ElementTransform,
+  ElementType,
+  type SelectionHandle,
+} from '@/types/elements';
+
+import {
+  getElementBounds,
+  getPointsBounds,
+  getRectangleCenter,
+  getRotatedElementBounds,
+  rotatePoint,
+} from './geometry';
+
+/** Distance of the rotate handle above the frame in screen pixels */
+export const ROTATE_HANDLE_OFFSET = 24;
+
+/** Rotation snaps to multiples of this angle in degrees */
+export const ROTATION_SNAP_ANGLE = 15;
+
+/** Smallest size an element can be resized to */
+export const MIN_ELEMENT_SIZE: Size = { width: 40, height: 30 };
+
+/** ID of the rotate handle */
+export const ROTATE_HANDLE_ID = 'rotate';
+
+/** Resize handle IDs, clockwise from the top */
+export type ResizeHandleId = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+/** Frame that the handles of a selection are laid out on */
+export interface SelectionFrame {
+  /** Unrotated bounds */
+  bounds: Rectangle;
+  /** Clockwise rotation in degrees around the center of the bounds */
+  rotation: number;
+}
+
+/** Options for resizing */
+export interface ResizeOptions {
+  /** Keep the width to height ratio */
+  keepAspectRatio?: boolean;
+  /** Resize symmetrically around the center */
+  fromCenter?: boolean;
+}
+
+/** Side of the frame each resize handle moves: -1 left/top, 1 right/bottom, 0 neither */
+const RESIZE_DIRECTIONS: Record<ResizeHandleId, Point> = {
+  n: { x: 0, y: -1 },
+  ne: { x: 1, y: -1 },
+  e: { x: 1, y: 0 },
+  se: { x: 1, y: 1 },
+  s: { x: 0, y: 1 },
+  sw: { x: -1, y: 1 },
+  w: { x: -1, y: 0 },
+  nw: { x: -1, y: -1 },
+};
+
+/** Resize cursors for handle angles of 0, 45, 90 and 135 degrees */
+const RESIZE_CURSORS = ['ns-resize', 'nesw-resize', 'ew-resize', 'nwse-resize'];
+
+export function isResizeHandle(handleId: string): handleId is ResizeHandleId {
+  return handleId in RESIZE_DIRECTIONS;
+}
+
+/**
+ * Elements that can be resized and rotated: connectors follow their notes instead
+ */
+export function getTransformableElements(elements: DiagramElement[]): DiagramElement[] {
+  return elements.filter((element) => element.type !== ElementType.CONNECTOR && !element.locked);
+}
+
+/**
+ * Frame of a selection, or null when nothing in it can be transformed
+ */
+export function getSelectionFrame(elements: DiagramElement[]): SelectionFrame | null {
+  const transformable = getTransformableElements(elements);
+  const [first] = transformable;
+
+  if (!first) {
+    return null;
+  }
+
+  if (transformable.length === 1) {
+    return { bounds: getElementBounds(first), rotation: first.rotation ?? 0 };
+  }
+
+  const corners = transformable.flatMap((element) => {
+    const bounds = getRotatedElementBounds(element);
+    return [
+      { x: bounds.x, y: bounds.y },
+      { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    ];
+  });
+  return { bounds: getPointsBounds(corners), rotation: 0 };
+}
+
+function getHandleCursor(handleId: ResizeHandleId, rotation: number): string {
+  const direction = RESIZE_DIRECTIONS[handleId];
+  const angle = (Math.atan2(direction.x, -direction.y) * 180) / Math.PI + rotation;
+  const index = Math.round((((angle % 180) + 180) % 180) / 45) % RESIZE_CURSORS.length;
+  return RESIZE_CURSORS[index] ?? 'default';
+}
+
+/**
+ * Resize and rotate handles of a frame in world coordinates
+ */
+export function getSelectionHandles(frame: SelectionFrame, zoom: number): SelectionHandle[] {
+  const { bounds, rotation } = frame;
+  const center = getRectangleCenter(bounds);
+
+  const handles: SelectionHandle[] = (Object.keys(RESIZE_DIRECTIONS) as ResizeHandleId[]).map(
+    (id) => {
+      const direction = RESIZE_DIRECTIONS[id];
+      return {
+        id,
+        type: 'resize',
+        position: rotatePoint(
+          {
+            x: center.x + (direction.x * bounds.width) / 2,
+            y: center.y + (direction.y * bounds.height) / 2,
+          },
+          center,
+          rotation
+        ),
+        cursor: getHandleCursor(id, rotation),
+      };
+    }
+  );
+
+  handles.push({
+    id: ROTATE_HANDLE_ID,
+    type: 'rotate',
+    position: rotatePoint(
+      { x: center.x, y: bounds.y - ROTATE_HANDLE_OFFSET / zoom },
+      center,
+      rotation
+    ),
+    cursor: 'grab',
+  });
+
+  return handles;
+}
+
+/**
+ * Smallest scale factors that keep every element at least MIN_ELEMENT_SIZE
+ */
+function getMinimumScale(elements: DiagramElement[]): Point {
+  return elements.reduce(
+    (scale, element) => ({
+      x: Math.max(scale.x, Math.min(1, MIN_ELEMENT_SIZE.width / element.size.width)),
+      y: Math.max(scale.y, Math.min(1, MIN_ELEMENT_SIZE.height / element.size.height)),
+    }),
+    { x: 0, y: 0 }
+  );
+}
+
+/**
+ * Scale of an element along its own axes when its frame is scaled by scaleX and scaleY
+ * Elements rotated within the frame take the frame scale projected onto their axes, so a
+ * note turned by 90° grows along its height when the frame is stretched horizontally.
+ * @param rotation Rotation of the element relative to the frame in degrees
+ */
+function projectScale(scaleX: number, scaleY: number, rotation: number): Point {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: Math.hypot(scaleX * cos, scaleY * sin),
+    y: Math.hypot(scaleX * sin, scaleY * cos),
+  };
+}
+
+/**
+ * Start coordinate of a resized side along one axis
+ * @param direction Side moved by the handle; 0 keeps the side centered
+ */
+function getResizedStart(center: number, anchor: number, size: number, direction: number): number {
+  if (!direction) {
+    return center - size / 2;
+  }
+  return direction > 0 ? anchor : anchor - size;
+}
+
+/**
+ * Resize a selection by dragging one of its handles
+ * Every element is scaled relative to the frame, so a single element follows the
+ * handle exactly and a group keeps its layout. Rotated members of a group are scaled
+ * along their own axes.
+ * @param elements Elements as they were when the gesture started
+ * @param frame Frame of those elements
+ * @param point Pointer position in world coordinates
+ */
+export function resizeSelection(
+  elements: DiagramElement[],
+  frame: SelectionFrame,
+  handleId: ResizeHandleId,
+  point: Point,
+  options: ResizeOptions = {}
+): Record<string, ElementTransform> {
+  const transformable = getTransformableElements(elements);
+  const { bounds, rotation } = frame;
+  const center = getRectangleCenter(bounds);
+  const direction = RESIZE_DIRECTIONS[handleId];
+  const local = rotatePoint(point, center, -rotation);
+
+  // Point of the frame that stays in place
+  const anchor = options.fromCenter
+    ? center
+    : {
+        x: center.x - (direction.x * bounds.width) / 2,
+        y: center.y - (direction.y * bounds.height) / 2,
+      };
+  const factor = options.fromCenter ? 2 : 1;
+
+  let scaleX = direction.x
+    ? (direction.x * (local.x - anchor.x) * factor) / (bounds.width || 1)
+    : 1;
+  let scaleY = direction.y
+    ? (direction.y * (local.y - anchor.y) * factor) / (bounds.height || 1)
+    : 1;
+
+  if (options.keepAspectRatio) {
+    // Edge handles drive the other axis as well; corners follow the larger change
+    const scale = !direction.x ? scaleY : !direction.y ? scaleX : Math.max(scaleX, scaleY);
+    scaleX = scale;
+    scaleY = scale;
+  }
+
+  const minimum = getMinimumScale(transformable);
+  if (options.keepAspectRatio) {
+    const scale = Math.max(scaleX, minimum.x, minimum.y);
+    scaleX = scale;
+    scaleY = scale;
+  } else {
+    scaleX = Math.max(scaleX, minimum.x);
+    scaleY = Math.max(scaleY, minimum.y);
+  }
+
+  const width = bounds.width * scaleX;
+  const height = bounds.height * scaleY;
+
+  const resized: Rectangle = {
+    x: getResizedStart(center.x, anchor.x, width, options.fromCenter ? 0 : direction.x),
+    y: getResizedStart(center.y, anchor.y, height, options.fromCenter ? 0 : direction.y),
+    width,
+    height,
+  };
+
+  const transforms: Record<string, ElementTransform> = {};
+  transformable.forEach((element) => {
+    const elementCenter = rotatePoint(
+      getRectangleCenter(getElementBounds(element)),
+      center,
+      -rotation
+    );
+    const scale = projectScale(scaleX, scaleY, (element.rotation ?? 0) - rotation);
+    const size = {
+      width: Math.max(
+        element.size.width * scale.x,
+        Math.min(element.size.width, MIN_ELEMENT_SIZE.width)
+      ),
+      height: Math.max(
+        element.size.height * scale.y,
+        Math.min(element.size.height, MIN_ELEMENT_SIZE.height)
+      ),
+    };
+    const newCenter = rotatePoint(
+      {
+        x: resized.x + (elementCenter.x - bounds.x) * scaleX,
+        y: resized.y + (elementCenter.y - bounds.y) * scaleY,
+      },
+      center,
+      rotation
+    );
+
+    transforms[element.id] = {
+      position: { x: newCenter.x - size.width / 2, y: newCenter.y - size.height / 2 },
+      size,
+    };
+  });
+
+  return transforms;
+}
+
+/**
+ * Normalize an angle to the range [0, 360)
+ */
+function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Rotate a selection around the center of its frame by dragging the rotate handle
+ * @param elements Elements as they were when the gesture started
+ * @param frame Frame of those elements
+ * @param start Pointer position where the gesture started
+ * @param point Current pointer position
+ * @param snap Snap the frame rotation to ROTATION_SNAP_ANGLE steps
+ */
+export function rotateSelection(
+  elements: DiagramElement[],
+  frame: SelectionFrame,
+  start: Point,
+  point: Point,
+  snap = true
+): Record<string, ElementTransform> {
+  const center = getRectangleCenter(frame.bounds);
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  const angle = Math.atan2(point.y - center.y, point.x - center.x);
+
+  let delta = ((angle - startAngle) * 180) / Math.PI;
+  if (snap) {
+    const target = frame.rotation + delta;
+    delta = Math.round(target / ROTATION_SNAP_ANGLE) * ROTATION_SNAP_ANGLE - frame.rotation;
+  }
+
+  const transforms: Record<string, ElementTransform> = {};
+  getTransformableElements(elements).forEach((element) => {
+    const elementCenter = rotatePoint(getRectangleCenter(getElementBounds(element)), center, delta);
+
+    transforms[element.id] = {
+      position: {
+        x: elementCenter.x - element.size.width / 2,
+        y: elementCenter.y - element.size.height / 2,
+      },
+      size: { ...element.size },
+      rotation: normalizeAngle((element.rotation ?? 0) + delta),
+    };
+  });
+
+  return transforms;
+}
@@ -0,0 +1,339 @@
+/**
+ * Copy and paste of diagram elements through the system clipboard
+ * Copied elements are written twice: as JSON in a versioned custom format that any diagram
+ * of this app reads back, and as plain text for other applications. Plain text pasted from
+ * elsewhere becomes sticky notes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { type ID, type Point, Tool } from '@/types/common';
+import {
+  type CreateElementParams,
+  type DiagramElement,
+  ElementType,
+  type StickyNote,
+} from '@/types/elements';
+import {
+  getElementCorners,
+  getPointsBounds,
+  getRectangleCenter,
+  getVisibleArea,
+} from '@/lib/canvas/geometry';
+import { sortByZIndex } from '@/lib/canvas/renderer';
+import { cloneElements, getCopiedElements } from '@/lib/diagram-operations';
+import { createToolElement, DEFAULT_ELEMENT_SIZES } from '@/lib/element-factory';
+import { getDissolvedGroupIds } from '@/lib/groups';
+import { validateElementList } from '@/lib/storage/validation';
+import { useDiagramStore } from '@/stores/diagram-store';
+
+/** Custom clipboard format of copied elements; browsers require the "web " prefix */
+export const CLIPBOARD_MIME_TYPE = 'web application/vnd.next-demo.elements.v1+json';
+
+/** Marks clipboard JSON written by this app */
+export const CLIPBOARD_DATA_TYPE = 'next-demo/elements';
+
+/** Version of the clipboard payload, raised whenever its shape changes */
+export const CLIPBOARD_FORMAT_VERSION = 1;
+
+/** Distance between pasted copies and the elements they were copied from */
+const PASTE_OFFSET = 20;
+
+/** Consecutive pastes of the same copied elements, each one offset further */
+let pasteCascade: { key: string; count: number } | null = null;
+
+/** Space between sticky notes created from pasted text */
+const TEXT_NOTE_GAP = 20;
+
+/** Clipboard payload of copied elements */
+export interface ClipboardData {
+  type: typeof CLIPBOARD_DATA_TYPE;
+  version: number;
+  /** Copied elements, bottommost first; connectors only connect copied elements */
+  elements: DiagramElement[];
+}
+
+/** Where pasted elements are placed */
+export interface PastePlacement {
+  /** World position to centre the pasted elements on */
+  position?: Point;
+  /** Distance from where the elements were copied, used without a position */
+  offset?: Point;
+}
+
+/**
+ * Clipboard payload for a set of elements, or null when nothing can be copied
+ * Frames are copied with their children and connectors with both of their ends.
+ */
+export function createClipboardData(
+  elements: DiagramElement[],
+  elementIds: Iterable<ID>
+): ClipboardData | null {
+  const copied = sortByZIndex(getCopiedElements(elements, elementIds));
+  if (copied.length === 0) {
+    return null;
+  }
+
+  // Children that were left behind, i.e. connectors, drop out of their frames
+  const included = new Set(copied.map((element) => element.id));
+  return {
+    type: CLIPBOARD_DATA_TYPE,
+    version: CLIPBOARD_FORMAT_VERSION,
+    elements: copied.map((element) =>
+      element.type === ElementType.FRAME
+        ? { ...element, childIds: element.childIds.filter((id) => included.has(id)) }
+        : element
+    ),
+  };
+}
+
+function getElementText(element: DiagramElement): string {
+  switch (element.type) {
+    case ElementType.STICKY_NOTE:
+    case ElementType.SHAPE:
+    case ElementType.TEXT:
+      return element.content.text;
+    case ElementType.FRAME:
+      return element.title;
+    case ElementType.CONNECTOR:
+      return element.label?.text ?? '';
+    case ElementType.FREEHAND:
+      return '';
+  }
+}
+
+/**
+ * Plain text of copied elements, one paragraph per element with text
+ */
+export function getClipboardText(data: ClipboardData): string {
+  return data.elements
+    .map((element) => getElementText(element).trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export function serializeClipboardData(data: ClipboardData): string {
+  return JSON.stringify(data);
+}
+
+/**
+ * Read clipboard JSON, or null when the text is not a payload this version can paste
+ */
+export function parseClipboardData(text: string): ClipboardData | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const { type, version, elements } = data as Record<string, unknown>;
+  if (
+    type !== CLIPBOARD_DATA_TYPE ||
+    typeof version !== 'number' ||
+    version > CLIPBOARD_FORMAT_VERSION ||
+    !validateElementList(elements).valid
+  ) {
+    return null;
+  }
+
+  return { type, version, elements: elements as DiagramElement[] };
+}
+
+/**
+ * Elements to add for a paste of copied elements
+ * Every element gets a new ID, and connector ends, connection points, frame children and
+ * groups are rewired to the copies. Groups that only one copied element belongs to are
+ * dropped.
+ */
+export function createPastedElements(
+  data: ClipboardData,
+  placement: PastePlacement = {}
+): CreateElementParams<DiagramElement>[] {
+  const idMap = new Map(data.elements.map((element) => [element.id, uuidv4()] as const));
+  const dissolvedGroupIds = getDissolvedGroupIds(data.elements, new Set());
+  const groupIdMap = new Map(
+    [...new Set(data.elements.flatMap((element) => element.groupIds ?? []))]
+      .filter((groupId) => !dissolvedGroupIds.has(groupId))
+      .map((groupId) => [groupId, uuidv4()] as const)
+  );
+
+  let delta = placement.offset ?? { x: PASTE_OFFSET, y: PASTE_OFFSET };
+  if (placement.position) {
+    const center = getRectangleCenter(
+      getPointsBounds(
+        data.elements
+          .filter((element) => element.type !== ElementType.CONNECTOR)
+          .flatMap(getElementCorners)
+      )
+    );
+    delta = { x: placement.position.x - center.x, y: placement.position.y - center.y };
+  }
+
+  return cloneElements(data.elements, idMap, groupIdMap, delta).map((element) => {
+    const groupIds = element.groupIds?.filter((groupId) => !dissolvedGroupIds.has(groupId));
+    return groupIds?.length === element.groupIds?.length
+      ? element
+      : { ...element, groupIds: groupIds?.length ? groupIds : undefined };
+  });
+}
+
+/**
+ * Pieces of pasted text that become sticky notes
+ * Text with blank lines is split into paragraphs, other text into lines.
+ */
+export function splitPastedText(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const paragraphBreak = /\n[^\S\n]*\n/;
+  const parts = paragraphBreak.test(normalized)
+    ? normalized.split(paragraphBreak)
+    : normalized.split('\n');
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Sticky notes for pasted text, laid out in a grid centred on a position
+ */
+export function createTextNotes(text: string, position: Point): CreateElementParams<StickyNote>[] {
+  const parts = splitPastedText(text);
+  const { width, height } = DEFAULT_ELEMENT_SIZES[Tool.STICKY_NOTE];
+  const columns = Math.ceil(Math.sqrt(parts.length));
+  const rows = Math.ceil(parts.length / columns);
+  const left = position.x - (columns * (width + TEXT_NOTE_GAP) - TEXT_NOTE_GAP) / 2;
+  const top = position.y - (rows * (height + TEXT_NOTE_GAP) - TEXT_NOTE_GAP) / 2;
+
+  return parts.map((part, index) => {
+    const note = createToolElement(Tool.STICKY_NOTE, {
+      x: left + (index % columns) * (width + TEXT_NOTE_GAP),
+      y: top + Math.floor(index / columns) * (height + TEXT_NOTE_GAP),
+      width,
+      height,
+    }) as CreateElementParams<StickyNote>;
+
+    return { ...note, content: { ...note.content, text: part } };
+  });
+}
+
+/**
+ * Write copied elements to the system clipboard
+ * Browsers without custom clipboard formats get the JSON as plain text instead, which
+ * pasting still recognizes.
+ */
+export async function writeClipboard(data: ClipboardData): Promise<void> {
+  const json = serializeClipboardData(data);
+
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        [CLIPBOARD_MIME_TYPE]: new Blob([json], { type: CLIPBOARD_MIME_TYPE }),
+        'text/plain': new Blob([getClipboardText(data)], { type: 'text/plain' }),
+      }),
+    ]);
+  } catch {
+    await navigator.clipboard.writeText(json);
+  }
+}
+
+/**
+ * Read the system clipboard
+ * @returns Copied elements, or the plain text on the clipboard otherwise
+ */
+export async function readClipboard(): Promise<ClipboardData | string> {
+  try {
+    const items = await navigator.clipboard.read();
+    const item = items.find((candidate) => candidate.types.includes(CLIPBOARD_MIME_TYPE));
+    const data = item && parseClipboardData(await (await item.getType(CLIPBOARD_MIME_TYPE)).text());
+    if (data) {
+      return data;
+    }
+  } catch {
+    // Not every browser reads more than plain text
+  }
+
+  const text = await navigator.clipboard.readText();
+  return parseClipboardData(text) ?? text;
+}
+
+/**
+ * Copy elements of the current diagram to the system clipboard
+ * @returns Whether anything was copied
+ */
+export async function copyElements(elementIds: ID[]): Promise<boolean> {
+  const { currentDiagram } = useDiagramStore.getState();
+  const data = currentDiagram && createClipboardData(currentDiagram.elements, elementIds);
+  if (!data) {
+    return false;
+  }
+
+  await writeClipboard(data);
+  pasteCascade = null;
+  return true;
+}
+
+/**
+ * Copy elements to the system clipboard and delete them; locked elements are only copied
+ * @returns Whether anything was copied
+ */
+export async function cutElements(elementIds: ID[]): Promise<boolean> {
+  const copied = await copyElements(elementIds);
+  if (copied) {
+    useDiagramStore.getState().deleteElements(elementIds);
+  }
+  return copied;
+}
+
+/**
+ * Distance of the next paste of copied elements without a position
+ * Pasting the same elements into the same diagram again moves every copy one offset
+ * further, so repeated pastes cascade instead of stacking on each other.
+ */
+function getNextPasteOffset(diagramId: ID, data: ClipboardData): Point {
+  const key = [diagramId, ...data.elements.map((element) => element.id)].join(':');
+  const count = pasteCascade?.key === key ? pasteCascade.count + 1 : 1;
+  pasteCascade = { key, count };
+  return { x: PASTE_OFFSET * count, y: PASTE_OFFSET * count };
+}
+
+/**
+ * Paste the system clipboard into the current diagram as one undoable step
+ * @param position World position to centre the pasted elements on; without it copied
+ * elements are offset from where they were copied, further with every consecutive paste,
+ * and text lands in the middle of the view
+ * @returns IDs of the added elements
+ */
+export async function pasteClipboard(position?: Point): Promise<ID[]> {
+  const content = await readClipboard();
+  const { currentDiagram, performBatch } = useDiagramStore.getState();
+  if (!currentDiagram) {
+    return [];
+  }
+
+  const elements =
+    typeof content === 'string'
+      ? createTextNotes(
+          content,
+          position ?? getRectangleCenter(getVisibleArea(currentDiagram.viewport))
+        )
+      : createPastedElements(
+          content,
+          position ? { position } : { offset: getNextPasteOffset(currentDiagram.id, content) }
+        );
+
+  const pastedIds: ID[] = [];
+  if (elements.length > 0) {
+    performBatch(
+      () => {
+        elements.forEach((element) => {
+          pastedIds.push(useDiagramStore.getState().addElement(element));
+        });
+      },
+      `Paste ${elements.length} ${elements.length === 1 ? 'element' : 'elements'}`
+    );
+  }
+  return pastedIds;
+}
@@ -0,0 +1,733 @@
+/**
+ * Forward and inverse application of DiagramOperations
+ * History entries store operations instead of snapshots, so their memory cost grows
+ * with the size of each edit rather than the size of the diagram.
+ */
+
+import type { ID, Point, Size } from '@/types/common';
+import type {
+  Diagram,
+  DiagramOperation,
+  UpdateElementOperation,
+  DeleteElementOperation,
+} from '@/types/diagram';
+import {
+  type Connector,
+  type DiagramElement,
+  type ElementTransform,
+  ElementType,
+  type Frame,
+} from '@/types/elements';
+import { isConnectable, resizeConnectionPoints } from '@/lib/canvas/connection-points';
+import {
+  getClosestPointOnElementOutline,
+  getConnectionPointPosition,
+  getRotatedElementBounds,
+  rectangleContainsRectangle,
+} from '@/lib/canvas/geometry';
+
+/**
+ * Build an update operation that records the previous value of every changed field
+ * @param element The element before the update
+ * @param changes The fields to change
+ */
+export function createUpdateOperation(
+  element: DiagramElement,
+  changes: Partial<DiagramElement>
+): UpdateElementOperation {
+  const previousState: Record<string, unknown> = {};
+
+  Object.keys(changes).forEach((key) => {
+    // Fields missing on the element are recorded as undefined so the inverse removes them
+    previousState[key] = (element as unknown as Record<string, unknown>)[key];
+  });
+
+  return {
+    type: 'update_element',
+    elementId: element.id,
+    changes,
+    previousState: previousState as Partial<DiagramElement>,
+  };
+}
+
+/**
+ * Position where a connector endpoint attaches to an element
+ * Falls back to the closest point on the element's outline when the connection point
+ * no longer exists, so a connector never ends in empty space.
+ */
+export function resolveConnectorEndpoint(
+  endpoint: Connector['startElement'],
+  element: DiagramElement
+): Point {
+  if (isConnectable(element)) {
+    const connectionPoint = element.connectionPoints.find(
+      (point) => point.id === endpoint.connectionPointId
+    );
+    if (connectionPoint) {
+      return getConnectionPointPosition(element, connectionPoint.position);
+    }
+  }
+
+  return getClosestPointOnElementOutline(element, endpoint.position);
+}
+
+/**
+ * Endpoint of a connector moved to the current position of its attachment
+ * @returns null when the endpoint is not attached to a changed element or did not move
+ */
+function getAttachedEndpoint(
+  endpoint: Connector['startElement'],
+  changed: Map<ID, DiagramElement>
+): Connector['startElement'] | null {
+  const element = changed.get(endpoint.elementId);
+  if (!element || element.type === ElementType.CONNECTOR) {
+    return null;
+  }
+
+  const position = resolveConnectorEndpoint(endpoint, element);
+  if (position.x === endpoint.position.x && position.y === endpoint.position.y) {
+    return null;
+  }
+
+  return { ...endpoint, position };
+}
+
+/**
+ * Build update operations that move connector endpoints along with the elements they
+ * are attached to
+ * A connector whose ends both move by the same offset keeps its shape.
+ * @param elements Elements of the diagram
+ * @param changed Changed elements in their new state, by ID
+ */
+export function createAttachedConnectorUpdates(
+  elements: DiagramElement[],
+  changed: Map<ID, DiagramElement>
+): UpdateElementOperation[] {
+  return elements.flatMap((element) => {
+    if (element.type !== ElementType.CONNECTOR) {
+      return [];
+    }
+
+    const startElement = getAttachedEndpoint(element.startElement, changed);
+    const endElement = getAttachedEndpoint(element.endElement, changed);
+    if (!startElement && !endElement) {
+      return [];
+    }
+
+    const changes: Partial<Connector> = {
+      ...(startElement && { startElement }),
+      ...(endElement && { endElement }),
+    };
+
+    if (startElement && endElement && element.points.length > 0) {
+      const dx = startElement.position.x - element.startElement.position.x;
+      const dy = startElement.position.y - element.startElement.position.y;
+      if (
+        endElement.position.x - element.endElement.position.x === dx &&
+        endElement.position.y - element.endElement.position.y === dy
+      ) {
+        changes.points = element.points.map((point) => ({ x: point.x + dx, y: point.y + dy }));
+      }
+    }
+
+    return [createUpdateOperation(element, changes)];
+  });
+}
+
+/**
+ * Elements with every connector endpoint moved to its attachment, e.g. after loading
+ * a file whose cached endpoint positions are stale
+ */
+export function syncConnectorEndpoints(elements: DiagramElement[]): DiagramElement[] {
+  const updates = new Map(
+    createAttachedConnectorUpdates(
+      elements,
+      new Map(elements.map((element) => [element.id, element]))
+    ).map((operation) => [operation.elementId, operation.changes])
+  );
+
+  if (updates.size === 0) {
+    return elements;
+  }
+
+  return elements.map((element) => {
+    const changes = updates.get(element.id);
+    return changes ? ({ ...element, ...changes } as DiagramElement) : element;
+  });
+}
+
+/**
+ * Changes that keep the content of an element in place when it is resized
+ */
+export function getResizeChanges(element: DiagramElement, size: Size): Partial<DiagramElement> {
+  if (isConnectable(element)) {
+    return { connectionPoints: resizeConnectionPoints(element, size) };
+  }
+
+  if (element.type === ElementType.FREEHAND) {
+    const scaleX = size.width / (element.size.width || 1);
+    const scaleY = size.height / (element.size.height || 1);
+    return {
+      points: element.points.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY })),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Build update operations that resize or rotate elements
+ * Connection points and stroke points follow the new size, and connectors attached to
+ * the transformed elements follow their connection points.
+ * @param elements Elements of the diagram
+ * @param transforms New geometry by element ID
+ */
+export function createTransformOperations(
+  elements: DiagramElement[],
+  transforms: Record<ID, ElementTransform>
+): UpdateElementOperation[] {
+  const operations: UpdateElementOperation[] = [];
+  const transformed = new Map<ID, DiagramElement>();
+
+  elements.forEach((element) => {
+    const transform = transforms[element.id];
+    if (!transform) {
+      return;
+    }
+
+    const changes: Partial<DiagramElement> = {
+      position: { ...transform.position },
+      size: { ...transform.size },
+      ...(transform.rotation !== undefined && { rotation: transform.rotation }),
+      ...getResizeChanges(element, transform.size),
+    };
+
+    operations.push(createUpdateOperation(element, changes));
+    transformed.set(element.id, { ...element, ...changes } as DiagramElement);
+  });
+
+  return [...operations, ...createAttachedConnectorUpdates(elements, transformed)];
+}
+
+/**
+ * IDs together with the children of every frame among them, at any depth
+ */
+export function withFrameChildren(elements: DiagramElement[], elementIds: Iterable<ID>): Set<ID> {
+  const framesById = new Map(
+    elements.flatMap((element) =>
+      element.type === ElementType.FRAME ? [[element.id, element] as const] : []
+    )
+  );
+  const result = new Set<ID>();
+  const pending = [...elementIds];
+
+  for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+    if (!result.has(id)) {
+      result.add(id);
+      pending.push(...(framesById.get(id)?.childIds ?? []));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Elements taken along when a selection is copied or duplicated
+ * Frames bring their children. Connectors come along when both of their ends do, whether
+ * they are selected or not, and never without them.
+ */
+export function getCopiedElements(
+  elements: DiagramElement[],
+  elementIds: Iterable<ID>
+): DiagramElement[] {
+  const copiedIds = withFrameChildren(elements, elementIds);
+
+  return elements.filter((element) =>
+    element.type === ElementType.CONNECTOR
+      ? copiedIds.has(element.startElement.elementId) && copiedIds.has(element.endElement.elementId)
+      : copiedIds.has(element.id)
+  );
+}
+
+/**
+ * Copies of elements under new IDs, moved by an offset
+ * Connector ends, connection points and frame children are rewired to the copies; frame
+ * children that were not copied are dropped. Groups are renamed where groupIdMap has a new
+ * ID and kept otherwise.
+ * @param idMap New ID of every element to copy
+ */
+export function cloneElements(
+  elements: DiagramElement[],
+  idMap: Map<ID, ID>,
+  groupIdMap: Map<ID, ID>,
+  delta: Point
+): DiagramElement[] {
+  const mapId = (id: ID) => idMap.get(id) ?? id;
+  const translate = (point: Point) => ({ x: point.x + delta.x, y: point.y + delta.y });
+
+  return elements.flatMap((element): DiagramElement[] => {
+    const id = idMap.get(element.id);
+    if (!id) {
+      return [];
+    }
+
+    const common = {
+      id,
+      position: translate(element.position),
+      ...(element.groupIds && {
+        groupIds: element.groupIds.map((groupId) => groupIdMap.get(groupId) ?? groupId),
+      }),
+    };
+
+    if (isConnectable(element)) {
+      return [
+        {
+          ...element,
+          ...common,
+          connectionPoints: element.connectionPoints.map((point) => ({ ...point, elementId: id })),
+        },
+      ];
+    }
+
+    switch (element.type) {
+      case ElementType.CONNECTOR:
+        return [
+          {
+            ...element,
+            ...common,
+            startElement: {
+              ...element.startElement,
+              elementId: mapId(element.startElement.elementId),
+              position: translate(element.startElement.position),
+            },
+            endElement: {
+              ...element.endElement,
+              elementId: mapId(element.endElement.elementId),
+              position: translate(element.endElement.position),
+            },
+            points: element.points.map(translate),
+          },
+        ];
+      case ElementType.FRAME:
+        return [
+          {
+            ...element,
+            ...common,
+            childIds: element.childIds.flatMap((childId) => idMap.get(childId) ?? []),
+          },
+        ];
+      default:
+        return [{ ...element, ...common }];
+    }
+  });
+}
+
+/**
+ * Build update operations that take deleted elements out of the frames they were in
+ */
+export function createFrameChildRemovals(
+  elements: DiagramElement[],
+  deletedIds: Set<ID>
+): UpdateElementOperation[] {
+  return elements.flatMap((element) => {
+    if (element.type !== ElementType.FRAME || deletedIds.has(element.id)) {
+      return [];
+    }
+
+    const childIds = element.childIds.filter((id) => !deletedIds.has(id));
+    return childIds.length === element.childIds.length
+      ? []
+      : [createUpdateOperation(element, { childIds })];
+  });
+}
+
+/**
+ * Build update operations that put elements into the frames around them, e.g. after they
+ * were added, moved or resized
+ * An element stays in its frame while it lies entirely inside it; otherwise it leaves and
+ * joins the topmost frame that does contain it, never one of its own descendants.
+ * Connectors belong to no frame.
+ */
+export function createFrameMembershipUpdates(
+  elements: DiagramElement[],
+  elementIds: Iterable<ID>
+): UpdateElementOperation[] {
+  const frames = elements.filter((element): element is Frame => element.type === ElementType.FRAME);
+  if (frames.length === 0) {
+    return [];
+  }
+
+  const elementsById = new Map(elements.map((element) => [element.id, element]));
+  const childIds = new Map(frames.map((frame) => [frame.id, frame.childIds]));
+  const parentIds = new Map(
+    frames.flatMap((frame) => frame.childIds.map((childId) => [childId, frame.id] as const))
+  );
+  const topmostFirst = [...frames].sort((a, b) => b.zIndex - a.zIndex);
+
+  new Set(elementIds).forEach((id) => {
+    const element = elementsById.get(id);
+    if (!element || element.type === ElementType.CONNECTOR) {
+      return;
+    }
+
+    const bounds = getRotatedElementBounds(element);
+    const fits = (frame: DiagramElement) =>
+      rectangleContainsRectangle(getRotatedElementBounds(frame), bounds);
+
+    const parentId = parentIds.get(id);
+    const parent = parentId && elementsById.get(parentId);
+    if (parent && fits(parent)) {
+      return;
+    }
+
+    const ownIds = withFrameChildren(elements, [id]);
+    const target = topmostFirst.find((frame) => !ownIds.has(frame.id) && fits(frame));
+    if (parentId) {
+      childIds.set(
+        parentId,
+        (childIds.get(parentId) ?? []).filter((childId) => childId !== id)
+      );
+      parentIds.delete(id);
+    }
+    if (target) {
+      childIds.set(target.id, [...(childIds.get(target.id) ?? []), id]);
+      parentIds.set(id, target.id);
+    }
+  });
+
+  return frames.flatMap((frame) => {
+    const next = childIds.get(frame.id) ?? frame.childIds;
+    return next === frame.childIds ? [] : [createUpdateOperation(frame, { childIds: next })];
+  });
+}
+
+/**
+ * New zIndex values that stack elements in a given order
+ * The existing values are handed out again in the new order, raised where needed so that
+ * no two elements tie, which leaves elements that keep their place unchanged.
+ * @param ordered Every element of the diagram, bottommost first
+ * @returns zIndex by element ID for the elements that change
+ */
+export function getRestackedZIndices(ordered: DiagramElement[]): Map<ID, number> {
+  const values = ordered.map((element) => element.zIndex).sort((a, b) => a - b);
+  const changes = new Map<ID, number>();
+  let previous = -Infinity;
+
+  ordered.forEach((element, index) => {
+    const zIndex = Math.max(values[index] ?? 0, previous + 1);
+    if (zIndex !== element.zIndex) {
+      changes.set(element.id, zIndex);
+    }
+    previous = zIndex;
+  });
+
+  return changes;
+}
+
+/**
+ * Build update operations that take elements out of groups
+ * @param excludedIds Elements to leave unchanged, e.g. because they are deleted
+ */
+export function createGroupRemovals(
+  elements: DiagramElement[],
+  groupIds: Set<ID>,
+  excludedIds: Set<ID> = new Set()
+): UpdateElementOperation[] {
+  return elements.flatMap((element) => {
+    const current = element.groupIds ?? [];
+    if (excludedIds.has(element.id) || !current.some((groupId) => groupIds.has(groupId))) {
+      return [];
+    }
+
+    const remaining = current.filter((groupId) => !groupIds.has(groupId));
+    return [
+      createUpdateOperation(element, { groupIds: remaining.length > 0 ? remaining : undefined }),
+    ];
+  });
+}
+
+/**
+ * Build delete operations for a set of elements, ordered so that they can be applied
+ * one after another and inverted back into their original array positions
+ */
+export function createDeleteOperations(
+  elements: DiagramElement[],
+  elementIds: Set<ID>
+): DeleteElementOperation[] {
+  const operations: DeleteElementOperation[] = [];
+
+  // Delete from the end so every recorded index is still valid when applied
+  for (let index = elements.length - 1; index >= 0; index -= 1) {
+    const element = elements[index];
+    if (element && elementIds.has(element.id)) {
+      operations.push({ type: 'delete_element', element, index });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Return the operation that undoes the given operation
+ */
+export function invertOperation(operation: DiagramOperation): DiagramOperation {
+  switch (operation.type) {
+    case 'add_element':
+      return {
+        type: 'delete_element',
+        element: operation.element,
+        ...(operation.index !== undefined && { index: operation.index }),
+      };
+    case 'delete_element':
+      return {
+        type: 'add_element',
+        element: operation.element,
+        ...(operation.index !== undefined && { index: operation.index }),
+      };
+    case 'update_element':
+      return {
+        type: 'update_element',
+        elementId: operation.elementId,
+        changes: operation.previousState,
+        previousState: operation.changes,
+      };
+    case 'move_elements':
+      return {
+        type: 'move_elements',
+        elementIds: operation.elementIds,
+        delta: { x: -operation.delta.x, y: -operation.delta.y },
+      };
+    case 'viewport_change':
+      return {
+        type: 'viewport_change',
+        previousViewport: operation.newViewport,
+        newViewport: operation.previousViewport,
+      };
+    case 'update_diagram':
+      return {
+        type: 'update_diagram',
+        changes: operation.previousState,
+        previousState: operation.changes,
+      };
+    case 'batch':
+      return {
+        type: 'batch',
+        operations: [...operation.operations].reverse().map(invertOperation),
+        ...(operation.description && { description: operation.description }),
+      };
+  }
+}
+
+/**
+ * Apply an operation to a diagram in place (e.g. an Immer draft)
+ * @param timestamp Value written to updatedAt of every touched element
+ */
+export function applyOperation(
+  diagram: Diagram,
+  operation: DiagramOperation,
+  timestamp = Date.now()
+): void {
+  const { elements } = diagram;
+
+  switch (operation.type) {
+    case 'add_element': {
+      const index = operation.index ?? elements.length;
+      elements.splice(Math.min(index, elements.length), 0, operation.element);
+      break;
+    }
+
+    case 'delete_element': {
+      const { index } = operation;
+      const resolvedIndex =
+        index !== undefined && elements[index]?.id === operation.element.id
+          ? index
+          : elements.findIndex((element) => element.id === operation.element.id);
+      if (resolvedIndex !== -1) {
+        elements.splice(resolvedIndex, 1);
+      }
+      break;
+    }
+
+    case 'update_element': {
+      const element = elements.find((candidate) => candidate.id === operation.elementId);
+      if (!element) {
+        break;
+      }
+
+      const target = element as unknown as Record<string, unknown>;
+      Object.entries(operation.changes).forEach(([key, value]) => {
+        if (value === undefined) {
+          delete target[key];
+        } else {
+          target[key] = value;
+        }
+      });
+
+      if (!('updatedAt' in operation.changes)) {
+        element.updatedAt = timestamp;
+      }
+      break;
+    }
+
+    case 'move_elements': {
+      const elementIds = new Set(operation.elementIds);
+      elements.forEach((element) => {
+        if (elementIds.has(element.id)) {
+          element.position.x += operation.delta.x;
+          element.position.y += operation.delta.y;
+          element.updatedAt = timestamp;
+        }
+      });
+      break;
+    }
+
+    case 'viewport_change':
+      diagram.viewport = { ...operation.newViewport };
+      break;
+
+    case 'update_diagram': {
+      const target = diagram as unknown as Record<string, unknown>;
+      Object.entries(operation.changes).forEach(([key, value]) => {
+        if (value === undefined) {
+          delete target[key];
+        } else {
+          target[key] = value;
+        }
+      });
+      break;
+    }
+
+    case 'batch':
+      operation.operations.forEach((child) => applyOperation(diagram, child, timestamp));
+      break;
+  }
+}
+
+/** Pseudo ID used for operations that change the diagram itself */
+const DIAGRAM_TARGET = Symbol('diagram');
+
+/**
+ * IDs of everything an operation touches
+ */
+function getTouchedTargets(operation: DiagramOperation): (ID | typeof DIAGRAM_TARGET)[] {
+  switch (operation.type) {
+    case 'add_element':
+    case 'delete_element':
+      return [operation.element.id];
+    case 'update_element':
+      return [operation.elementId];
+    case 'move_elements':
+      return operation.elementIds;
+    case 'viewport_change':
+      return [];
+    case 'update_diagram':
+      return [DIAGRAM_TARGET];
+    case 'batch':
+      return operation.operations.flatMap(getTouchedTargets);
+  }
+}
+
+/**
+ * IDs of the elements an operation adds, changes or removes
+ */
+export function getAffectedElementIds(operation: DiagramOperation): ID[] {
+  return getTouchedTargets(operation).filter((target): target is ID => target !== DIAGRAM_TARGET);
+}
+
+function haveSameIds(a: ID[], b: ID[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  const ids = new Set(a);
+  return b.every((id) => ids.has(id));
+}
+
+/**
+ * Merge a later operation into an earlier one of the same kind, if possible
+ */
+function mergeOperations(
+  earlier: DiagramOperation,
+  later: DiagramOperation
+): DiagramOperation | null {
+  if (
+    earlier.type === 'move_elements' &&
+    later.type === 'move_elements' &&
+    haveSameIds(earlier.elementIds, later.elementIds)
+  ) {
+    return {
+      ...earlier,
+      delta: { x: earlier.delta.x + later.delta.x, y: earlier.delta.y + later.delta.y },
+    };
+  }
+
+  if (
+    earlier.type === 'update_element' &&
+    later.type === 'update_element' &&
+    earlier.elementId === later.elementId
+  ) {
+    return {
+      ...earlier,
+      changes: { ...earlier.changes, ...later.changes } as Partial<DiagramElement>,
+      // The earliest recorded value of each field is the one to restore
+      previousState: {
+        ...later.previousState,
+        ...earlier.previousState,
+      } as Partial<DiagramElement>,
+    };
+  }
+
+  if (earlier.type === 'update_diagram' && later.type === 'update_diagram') {
+    return {
+      ...earlier,
+      changes: { ...earlier.changes, ...later.changes },
+      previousState: { ...later.previousState, ...earlier.previousState },
+    };
+  }
+
+  return null;
+}
+
+function flattenBatch(operation: DiagramOperation): DiagramOperation[] {
+  return operation.type === 'batch' ? operation.operations.flatMap(flattenBatch) : [operation];
+}
+
+/**
+ * Collapse a sequence of operations, e.g. the many small moves of a drag gesture,
+ * into the fewest operations with the same combined effect. An operation is merged
+ * into an earlier one of the same kind unless something in between touched the
+ * same elements.
+ */
+export function coalesceOperations(operations: DiagramOperation[]): DiagramOperation[] {
+  const result: DiagramOperation[] = [];
+
+  // A batch has the same effect as its operations applied one by one
+  operations.flatMap(flattenBatch).forEach((operation) => {
+    const targets = new Set(getTouchedTargets(operation));
+
+    for (let index = result.length - 1; index >= 0; index -= 1) {
+      const candidate = result[index];
+      if (!candidate) {
+        break;
+      }
+
+      const merged = mergeOperations(candidate, operation);
+      if (merged) {
+        result[index] = merged;
+        return;
+      }
+
+      // Stop at the first operation that must stay ordered before this one
+      if (getTouchedTargets(candidate).some((target) => targets.has(target))) {
+        break;
+      }
+    }
+
+    result.push(operation);
+  });
+
+  // Moves that cancel out entirely leave nothing to undo
+  return result.filter(
+    (operation) =>
+      operation.type !== 'move_elements' || operation.delta.x !== 0 || operation.delta.y !== 0
+  );
+}
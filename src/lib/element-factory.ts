@@ -0,0 +1,166 @@
+/**
+ * Default elements created by the drawing tools
+ * Each creation tool maps to one element type with default content and style, so the
+ * canvas and the store agree on what a new element looks like.
+ */
+
+import { type Point, type Rectangle, type Size, Tool } from '@/types/common';
+import {
+  type Connector,
+  type CreateElementParams,
+  type DiagramElement,
+  ElementType,
+  type FreehandStroke,
+  type ShapeKind,
+} from '@/types/elements';
+import { getPointsBounds } from '@/lib/canvas/geometry';
+
+/** Tools that create an element from a click or a dragged rectangle */
+export type CreationTool =
+  | Tool.STICKY_NOTE
+  | Tool.RECTANGLE
+  | Tool.ELLIPSE
+  | Tool.DIAMOND
+  | Tool.TEXT
+  | Tool.FRAME;
+
+/** Size of elements created with a click instead of a drag */
+export const DEFAULT_ELEMENT_SIZES: Record<CreationTool, Size> = {
+  [Tool.STICKY_NOTE]: { width: 200, height: 150 },
+  [Tool.RECTANGLE]: { width: 160, height: 100 },
+  [Tool.ELLIPSE]: { width: 160, height: 100 },
+  [Tool.DIAMOND]: { width: 160, height: 120 },
+  [Tool.TEXT]: { width: 160, height: 32 },
+  [Tool.FRAME]: { width: 480, height: 320 },
+};
+
+/** Style of new connectors */
+export const DEFAULT_CONNECTOR_STYLE: Connector['style'] = {
+  strokeColor: '#000000',
+  strokeWidth: 2,
+  strokeStyle: 'solid',
+  arrowEnd: { type: 'triangle', size: 10, filled: true },
+};
+
+/** Style of new freehand strokes */
+export const DEFAULT_FREEHAND_STYLE: FreehandStroke['style'] = {
+  strokeColor: '#1f2937',
+  strokeWidth: 3,
+};
+
+const SHAPE_TOOLS: Partial<Record<Tool, ShapeKind>> = {
+  [Tool.RECTANGLE]: 'rectangle',
+  [Tool.ELLIPSE]: 'ellipse',
+  [Tool.DIAMOND]: 'diamond',
+};
+
+export function isCreationTool(tool: Tool): tool is CreationTool {
+  return tool in DEFAULT_ELEMENT_SIZES;
+}
+
+/**
+ * New element for a creation tool
+ * Connection points are left empty; the store generates them when the element is added.
+ * @param bounds Area the element fills in world coordinates
+ */
+export function createToolElement(
+  tool: CreationTool,
+  bounds: Rectangle
+): CreateElementParams<DiagramElement> {
+  const geometry = {
+    position: { x: bounds.x, y: bounds.y },
+    size: { width: bounds.width, height: bounds.height },
+  };
+  const shape = SHAPE_TOOLS[tool];
+
+  if (shape) {
+    return {
+      ...geometry,
+      type: ElementType.SHAPE,
+      shape,
+      content: {
+        text: '',
+        fontSize: 14,
+        fontFamily: 'Arial',
+        textAlign: 'center',
+        verticalAlign: 'middle',
+      },
+      style: {
+        fillColor: '#ffffff',
+        strokeColor: '#1f2937',
+        strokeWidth: 2,
+        textColor: '#000000',
+      },
+      connectionPoints: [],
+    };
+  }
+
+  switch (tool) {
+    case Tool.TEXT:
+      return {
+        ...geometry,
+        type: ElementType.TEXT,
+        content: { text: '', fontSize: 16, fontFamily: 'Arial', textAlign: 'left' },
+        style: { textColor: '#000000' },
+      };
+    case Tool.FRAME:
+      return {
+        ...geometry,
+        type: ElementType.FRAME,
+        title: 'Frame',
+        childIds: [],
+        style: { backgroundColor: '#f9fafb', borderColor: '#d1d5db', borderWidth: 1 },
+      };
+    default:
+      return {
+        ...geometry,
+        type: ElementType.STICKY_NOTE,
+        content: {
+          text: '',
+          fontSize: 14,
+          fontFamily: 'Arial',
+          textAlign: 'left',
+          verticalAlign: 'top',
+        },
+        style: { backgroundColor: '#ffeb3b', textColor: '#000000' },
+        connectionPoints: [],
+      };
+  }
+}
+
+/**
+ * New freehand stroke through points in world coordinates, or null without enough points
+ */
+export function createFreehandStroke(points: Point[]): CreateElementParams<FreehandStroke> | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const bounds = getPointsBounds(points);
+  return {
+    type: ElementType.FREEHAND,
+    position: { x: bounds.x, y: bounds.y },
+    // A straight horizontal or vertical stroke still gets an area to resize
+    size: { width: Math.max(bounds.width, 1), height: Math.max(bounds.height, 1) },
+    points: points.map((point) => ({ x: point.x - bounds.x, y: point.y - bounds.y })),
+    style: { ...DEFAULT_FREEHAND_STYLE },
+  };
+}
+
+/**
+ * New connector between two attached endpoints
+ */
+export function createConnector(
+  startElement: Connector['startElement'],
+  endElement: Connector['endElement']
+): CreateElementParams<Connector> {
+  return {
+    type: ElementType.CONNECTOR,
+    position: { x: 0, y: 0 },
+    size: { width: 0, height: 0 },
+    startElement,
+    endElement,
+    points: [],
+    style: { ...DEFAULT_CONNECTOR_STYLE },
+  };
+}
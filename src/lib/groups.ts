@@ -0,0 +1,135 @@
+/**
+ * Element groups
+ * A group is not an element of its own: every grouped element lists its groups in
+ * `groupIds`, innermost first. Nested groups share the tail of their members' lists, and a
+ * group exists for as long as it has members.
+ */
+
+import { findLastIndex } from 'lodash-es';
+
+import type { ID } from '@/types/common';
+import type { DiagramElement } from '@/types/elements';
+
+/**
+ * Whether an element is inside a group
+ * @param groupId Group to check, or null for the top level, which holds every element
+ */
+export function isInGroup(element: DiagramElement, groupId: ID | null): boolean {
+  return groupId === null || (element.groupIds ?? []).includes(groupId);
+}
+
+/**
+ * Group of an element directly inside another group
+ * @param withinGroupId Group being edited, or null at the top level
+ * @returns The element's outermost group below withinGroupId, or undefined when the element
+ * is directly inside withinGroupId or not inside it at all
+ */
+export function getOuterGroupId(
+  element: DiagramElement,
+  withinGroupId: ID | null = null
+): ID | undefined {
+  const groupIds = element.groupIds ?? [];
+  const index = withinGroupId === null ? groupIds.length : groupIds.indexOf(withinGroupId);
+  return index > 0 ? groupIds[index - 1] : undefined;
+}
+
+export function getGroupMembers(elements: DiagramElement[], groupId: ID): DiagramElement[] {
+  return elements.filter((element) => element.groupIds?.includes(groupId));
+}
+
+/**
+ * Element IDs together with the other members of their groups
+ * Only the outermost group below withinGroupId counts, so selecting inside an entered group
+ * picks nested groups as a whole but not the group being edited.
+ */
+export function withGroupMembers(
+  elements: DiagramElement[],
+  elementIds: Iterable<ID>,
+  withinGroupId: ID | null = null
+): Set<ID> {
+  const result = new Set(elementIds);
+  const groupIds = new Set(
+    elements.flatMap((element) =>
+      result.has(element.id) ? (getOuterGroupId(element, withinGroupId) ?? []) : []
+    )
+  );
+
+  elements.forEach((element) => {
+    if (element.groupIds?.some((groupId) => groupIds.has(groupId))) {
+      result.add(element.id);
+    }
+  });
+  return result;
+}
+
+/**
+ * Groups of an element with a new group added directly inside withinGroupId
+ */
+export function addGroupId(groupIds: ID[], groupId: ID, withinGroupId: ID | null = null): ID[] {
+  const index = withinGroupId === null ? -1 : groupIds.indexOf(withinGroupId);
+  return index < 0
+    ? [...groupIds, groupId]
+    : [...groupIds.slice(0, index), groupId, ...groupIds.slice(index)];
+}
+
+/**
+ * Drawing order with a set of elements brought together where the topmost of them is
+ * @param ordered Elements bottommost first
+ */
+export function stackTogether(ordered: DiagramElement[], elementIds: Set<ID>): DiagramElement[] {
+  const topIndex = findLastIndex(ordered, (element) => elementIds.has(element.id));
+  const isOutside = (element: DiagramElement) => !elementIds.has(element.id);
+
+  return [
+    ...ordered.slice(0, topIndex + 1).filter(isOutside),
+    ...ordered.filter((element) => !isOutside(element)),
+    ...ordered.slice(topIndex + 1),
+  ];
+}
+
+/**
+ * New IDs for the groups whose members are all in a set of elements
+ * Used when copying elements, so the copies form groups of their own; groups that are only
+ * partly copied keep their ID and take the copies in.
+ */
+export function createGroupIdMap(
+  elements: DiagramElement[],
+  elementIds: Set<ID>,
+  createId: () => ID
+): Map<ID, ID> {
+  const partial = new Set<ID>();
+  const complete = new Set<ID>();
+
+  elements.forEach((element) => {
+    element.groupIds?.forEach((groupId) => {
+      (elementIds.has(element.id) ? complete : partial).add(groupId);
+    });
+  });
+
+  return new Map(
+    [...complete]
+      .filter((groupId) => !partial.has(groupId))
+      .map((groupId) => [groupId, createId()] as const)
+  );
+}
+
+/**
+ * Groups left with fewer than two members once elements are removed
+ */
+export function getDissolvedGroupIds(elements: DiagramElement[], removedIds: Set<ID>): Set<ID> {
+  const memberCounts = new Map<ID, number>();
+
+  elements.forEach((element) => {
+    if (!removedIds.has(element.id)) {
+      element.groupIds?.forEach((groupId) =>
+        memberCounts.set(groupId, (memberCounts.get(groupId) ?? 0) + 1)
+      );
+    }
+  });
+
+  return new Set(
+    elements.flatMap((element) =>
+      (element.groupIds ?? []).filter((groupId) => (memberCounts.get(groupId) ?? 0) < 2)
+    )
+  );
+}
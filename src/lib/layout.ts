@@ -0,0 +1,683 @@
+/**
+ * Automatic layout of sticky notes
+ * Notes are the nodes of a graph whose edges are the connectors between them. A layout
+ * only moves notes and keeps the top-left corner of the area they cover; connectors follow
+ * the notes they are attached to.
+ */
+
+import type { ID, Point } from '@/types/common';
+import { type DiagramElement, type ElementTransform, ElementType } from '@/types/elements';
+import { getPointsBounds } from '@/lib/canvas/geometry';
+import { useDiagramStore } from '@/stores/diagram-store';
+
+/** How notes are arranged */
+export type LayoutAlgorithm = 'layered' | 'force' | 'grid';
+
+/** Direction in which the layers of a layered layout follow each other */
+export type LayoutDirection = 'top-down' | 'left-right';
+
+export interface LayoutOptions {
+  algorithm: LayoutAlgorithm;
+  /** Direction of a layered layout (default top-down) */
+  direction?: LayoutDirection;
+  /** Space between notes in world units (default LAYOUT_SPACING) */
+  spacing?: number;
+}
+
+/** Default space between laid out notes */
+export const LAYOUT_SPACING = 40;
+
+/** Length of the animation to the new layout in milliseconds */
+export const LAYOUT_ANIMATION_DURATION = 400;
+
+/** Barycenter passes that reduce crossings between the layers of a layered layout */
+const ORDERING_SWEEPS = 4;
+
+/** Steps of a force-directed layout */
+const FORCE_ITERATIONS = 300;
+
+/**
+ * Steps times notes a force-directed layout may take; large boards take fewer steps so
+ * that computing their layout does not block the page for long
+ */
+const FORCE_STEP_BUDGET = 150_000;
+
+/**
+ * Notes of a force-directed layout are repelled by a distant group of notes as a whole
+ * when the group's cell is smaller than this fraction of its distance; below 1/√2 a note
+ * is never part of a group that repels it
+ */
+const REPULSION_THETA = 0.7;
+
+/** Depth at which a Barnes–Hut cell stops splitting, e.g. for stacked notes */
+const MAX_FORCE_CELL_DEPTH = 16;
+
+/**
+ * Pull of a force-directed layout towards its center relative to the pull of a connector,
+ * which keeps unconnected notes close to the others
+ */
+const FORCE_GRAVITY = 0.3;
+
+/** Passes that push overlapping notes apart after a force-directed layout */
+const OVERLAP_PASSES = 50;
+
+/** Note in a layout graph */
+interface LayoutNode {
+  id: ID;
+  /** Top-left corner before the layout */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LayoutGraph {
+  nodes: LayoutNode[];
+  /** Connected nodes, from the start of a connector to its end */
+  edges: [LayoutNode, LayoutNode][];
+}
+
+/** Center of a node during a force-directed layout */
+interface Body {
+  node: LayoutNode;
+  x: number;
+  y: number;
+  /** Movement of the current step */
+  dx: number;
+  dy: number;
+}
+
+/** Square cell of the Barnes–Hut tree that approximates repulsion between bodies */
+interface ForceCell {
+  x: number;
+  y: number;
+  size: number;
+  depth: number;
+  /** Number of bodies in the cell and their mean center */
+  mass: number;
+  centerX: number;
+  centerY: number;
+  /** Bodies of a cell without children */
+  bodies: Body[];
+  children: [ForceCell, ForceCell, ForceCell, ForceCell] | null;
+}
+
+/**
+ * Notes to lay out and the connectors between them
+ * Hidden and locked notes stay where they are.
+ */
+function getLayoutGraph(elements: DiagramElement[], elementIds?: ID[]): LayoutGraph {
+  const scope = elementIds && new Set(elementIds);
+  const nodes = elements
+    .filter(
+      (element) =>
+        element.type === ElementType.STICKY_NOTE &&
+        element.visible !== false &&
+        !element.locked &&
+        (!scope || scope.has(element.id))
+    )
+    .map(({ id, position, size }) => ({ id, ...position, ...size }));
+
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const seen = new Set<string>();
+  const edges = elements.flatMap((element): [LayoutNode, LayoutNode][] => {
+    if (element.type !== ElementType.CONNECTOR) {
+      return [];
+    }
+
+    const from = nodeMap.get(element.startElement.elementId);
+    const to = nodeMap.get(element.endElement.elementId);
+    const key = `${from?.id}:${to?.id}`;
+    if (!from || !to || from === to || seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [[from, to]];
+  });
+
+  return { nodes, edges };
+}
+
+function getAdjacency(graph: LayoutGraph, directed: boolean): Map<LayoutNode, LayoutNode[]> {
+  const adjacency = new Map(graph.nodes.map((node) => [node, [] as LayoutNode[]]));
+  graph.edges.forEach(([from, to]) => {
+    adjacency.get(from)?.push(to);
+    if (!directed) {
+      adjacency.get(to)?.push(from);
+    }
+  });
+  return adjacency;
+}
+
+/**
+ * Layer of every node, so that edges point to later layers
+ * Edges that close a cycle are ignored; nodes are visited in the given order, so with the
+ * nodes sorted from the top of the drawing the edges ignored are the ones pointing back up.
+ */
+function assignLayers(graph: LayoutGraph, order: LayoutNode[]): Map<LayoutNode, number> {
+  const outgoing = getAdjacency(graph, true);
+
+  // Depth-first search keeps the edges that do not lead back onto the current path
+  const state = new Map<LayoutNode, 'active' | 'done'>();
+  const acyclic: LayoutGraph = { nodes: graph.nodes, edges: [] };
+  const visit = (node: LayoutNode) => {
+    state.set(node, 'active');
+    outgoing.get(node)?.forEach((next) => {
+      const nextState = state.get(next);
+      if (nextState !== 'active') {
+        acyclic.edges.push([node, next]);
+      }
+      if (nextState === undefined) {
+        visit(next);
+      }
+    });
+    state.set(node, 'done');
+  };
+  order.forEach((node) => !state.has(node) && visit(node));
+
+  // Longest path from the sources, in topological order
+  const forward = getAdjacency(acyclic, true);
+  const incoming = new Map(graph.nodes.map((node) => [node, 0]));
+  acyclic.edges.forEach(([, to]) => incoming.set(to, (incoming.get(to) ?? 0) + 1));
+
+  const layers = new Map(graph.nodes.map((node) => [node, 0]));
+  const queue = order.filter((node) => incoming.get(node) === 0);
+  for (let node = queue.shift(); node; node = queue.shift()) {
+    const layer = layers.get(node) ?? 0;
+    forward.get(node)?.forEach((next) => {
+      const remaining = (incoming.get(next) ?? 0) - 1;
+      layers.set(next, Math.max(layers.get(next) ?? 0, layer + 1));
+      incoming.set(next, remaining);
+      if (remaining === 0) {
+        queue.push(next);
+      }
+    });
+  }
+  return layers;
+}
+
+/**
+ * Top-left corners of a layered layout, relative to the layout's origin
+ * Layers follow each other in the layout direction. Within a layer, nodes are ordered by
+ * the average position of their neighbours in the adjacent layer to keep edges short and
+ * reduce crossings.
+ */
+function getLayeredPositions(
+  graph: LayoutGraph,
+  direction: LayoutDirection,
+  spacing: number
+): Map<LayoutNode, Point> {
+  const { nodes } = graph;
+  const main = direction === 'top-down' ? 'y' : 'x';
+  const cross = main === 'y' ? 'x' : 'y';
+  const mainSize = main === 'y' ? 'height' : 'width';
+  const crossSize = main === 'y' ? 'width' : 'height';
+
+  const layerOf = assignLayers(
+    graph,
+    [...nodes].sort((a, b) => a[main] - b[main])
+  );
+  const layerCount = Math.max(0, ...layerOf.values()) + 1;
+
+  // Start from the current order across the layout direction
+  const layers: LayoutNode[][] = Array.from({ length: layerCount }, () => []);
+  [...nodes]
+    .sort((a, b) => a[cross] - b[cross])
+    .forEach((node) => layers[layerOf.get(node) ?? 0]?.push(node));
+
+  const neighbours = getAdjacency(graph, false);
+  const indexInLayer = new Map<LayoutNode, number>();
+  const updateIndices = () =>
+    layers.forEach((layer) => layer.forEach((node, index) => indexInLayer.set(node, index)));
+  const orderByNeighbours = (layer: LayoutNode[], adjacent: number) => {
+    const barycenters = new Map(
+      layer.map((node, index) => {
+        const placed = (neighbours.get(node) ?? []).filter(
+          (other) => layerOf.get(other) === adjacent
+        );
+        const total = placed.reduce((sum, other) => sum + (indexInLayer.get(other) ?? 0), 0);
+        return [node, placed.length > 0 ? total / placed.length : index] as const;
+      })
+    );
+    layer.sort((a, b) => (barycenters.get(a) ?? 0) - (barycenters.get(b) ?? 0));
+  };
+
+  updateIndices();
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep += 1) {
+    const downward = sweep % 2 === 0;
+    for (let step = 1; step < layerCount; step += 1) {
+      const layerIndex = downward ? step : layerCount - 1 - step;
+      const layer = layers[layerIndex];
+      if (layer) {
+        orderByNeighbours(layer, downward ? layerIndex - 1 : layerIndex + 1);
+        updateIndices();
+      }
+    }
+  }
+
+  // Each layer is as deep as its deepest node and centered across the widest layer
+  const crossExtents = layers.map(
+    (layer) =>
+      layer.reduce((total, node) => total + node[crossSize], 0) +
+      spacing * Math.max(0, layer.length - 1)
+  );
+  const widest = Math.max(0, ...crossExtents);
+  const positions = new Map<LayoutNode, Point>();
+
+  let layerStart = 0;
+  layers.forEach((layer, layerIndex) => {
+    const depth = Math.max(0, ...layer.map((node) => node[mainSize]));
+    let crossStart = (widest - (crossExtents[layerIndex] ?? 0)) / 2;
+
+    layer.forEach((node) => {
+      const mainStart = layerStart + (depth - node[mainSize]) / 2;
+      positions.set(
+        node,
+        main === 'y' ? { x: crossStart, y: mainStart } : { x: mainStart, y: crossStart }
+      );
+      crossStart += node[crossSize] + spacing;
+    });
+    layerStart += depth + spacing;
+  });
+
+  return positions;
+}
+
+/**
+ * Call back once for every pair of bodies that may be closer than a distance on both axes
+ * Bodies are bucketed into a grid with cells of that size, so only bodies in neighboring
+ * cells are compared instead of every pair.
+ */
+function forEachNearbyPair(
+  bodies: Body[],
+  distance: number,
+  callback: (a: Body, b: Body) => void
+): void {
+  const cells = new Map<string, { order: number; body: Body }[]>();
+  const getCell = ({ x, y }: Body) => ({
+    column: Math.floor(x / distance),
+    row: Math.floor(y / distance),
+  });
+
+  bodies.forEach((body, order) => {
+    const { column, row } = getCell(body);
+    const key = `${column}:${row}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push({ order, body });
+    } else {
+      cells.set(key, [{ order, body }]);
+    }
+  });
+
+  bodies.forEach((a, order) => {
+    const { column, row } = getCell(a);
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        cells.get(`${column + dx}:${row + dy}`)?.forEach((other) => {
+          if (other.order > order) {
+            callback(a, other.body);
+          }
+        });
+      }
+    }
+  });
+}
+
+function createForceCell(x: number, y: number, size: number, depth: number): ForceCell {
+  return { x, y, size, depth, mass: 0, centerX: 0, centerY: 0, bodies: [], children: null };
+}
+
+/**
+ * Child of a split cell whose quadrant holds a body
+ */
+function getQuadrant(
+  children: NonNullable<ForceCell['children']>,
+  half: number,
+  body: Body
+): ForceCell {
+  const [topLeft, topRight, bottomLeft, bottomRight] = children;
+  const right = body.x >= topLeft.x + half;
+  if (body.y >= topLeft.y + half) {
+    return right ? bottomRight : bottomLeft;
+  }
+  return right ? topRight : topLeft;
+}
+
+function insertBody(root: ForceCell, body: Body): void {
+  for (let cell: ForceCell | null = root; cell; ) {
+    cell.mass += 1;
+    cell.centerX += (body.x - cell.centerX) / cell.mass;
+    cell.centerY += (body.y - cell.centerY) / cell.mass;
+
+    if (cell.children) {
+      cell = getQuadrant(cell.children, cell.size / 2, body);
+      continue;
+    }
+
+    cell.bodies.push(body);
+    if (cell.bodies.length > 1 && cell.depth < MAX_FORCE_CELL_DEPTH) {
+      const { x, y, depth, bodies } = cell;
+      const half = cell.size / 2;
+      const children: NonNullable<ForceCell['children']> = [
+        createForceCell(x, y, half, depth + 1),
+        createForceCell(x + half, y, half, depth + 1),
+        createForceCell(x, y + half, half, depth + 1),
+        createForceCell(x + half, y + half, half, depth + 1),
+      ];
+      cell.children = children;
+      cell.bodies = [];
+
+      // The cell already counts these bodies; only its children take them in
+      bodies.forEach((moved) => insertBody(getQuadrant(children, half, moved), moved));
+    }
+    cell = null;
+  }
+}
+
+/**
+ * Barnes–Hut tree of the bodies at their current positions
+ */
+function createForceTree(bodies: Body[]): ForceCell {
+  const bounds = getPointsBounds(bodies);
+  const root = createForceCell(bounds.x, bounds.y, Math.max(bounds.width, bounds.height, 1), 0);
+  bodies.forEach((body) => insertBody(root, body));
+  return root;
+}
+
+/**
+ * Add the repulsion of all other bodies to the movement of a body
+ * Distant groups of bodies repel it as one body of their combined mass at their center.
+ */
+function applyRepulsion(root: ForceCell, body: Body, repel: (length: number) => number): void {
+  const stack = [root];
+
+  for (let cell = stack.pop(); cell; cell = stack.pop()) {
+    const dx = body.x - cell.centerX;
+    const dy = body.y - cell.centerY;
+    // Math.hypot is noticeably slower in this loop, which runs for every body and step
+    const length = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+
+    if (cell.children && cell.size >= length * REPULSION_THETA) {
+      stack.push(...cell.children);
+    } else if (cell.children || cell.bodies.every((other) => other !== body)) {
+      const amount = (cell.mass * repel(length)) / length;
+      body.dx += dx * amount;
+      body.dy += dy * amount;
+    } else {
+      // Stacked bodies that share the cell of this one
+      cell.bodies.forEach((other) => {
+        if (other !== body) {
+          const otherX = body.x - other.x;
+          const otherY = body.y - other.y;
+          const otherLength = Math.max(Math.sqrt(otherX * otherX + otherY * otherY), 0.01);
+          const amount = repel(otherLength) / otherLength;
+          body.dx += otherX * amount;
+          body.dy += otherY * amount;
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Top-left corners of a force-directed layout
+ * Connected notes attract each other and all notes repel each other, starting from the
+ * current drawing; notes that still overlap afterwards are pushed apart. Repulsion is
+ * approximated with a Barnes–Hut tree so that large boards lay out in reasonable time.
+ */
+function getForcePositions(graph: LayoutGraph, spacing: number): Map<LayoutNode, Point> {
+  const { nodes, edges } = graph;
+  const idealLength =
+    nodes.reduce((total, node) => total + Math.max(node.width, node.height), 0) / nodes.length +
+    spacing;
+
+  // Notes stacked on the same spot start on a small spiral so that forces can part them
+  const bodies = new Map<LayoutNode, Body>(
+    nodes.map((node, index) => [
+      node,
+      {
+        node,
+        x: node.x + node.width / 2 + Math.cos(index * 2.4) * Math.sqrt(index),
+        y: node.y + node.height / 2 + Math.sin(index * 2.4) * Math.sqrt(index),
+        dx: 0,
+        dy: 0,
+      },
+    ])
+  );
+  const bodyList = [...bodies.values()];
+
+  const push = (a: Body, b: Body, force: (length: number) => number) => {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const length = Math.max(Math.hypot(dx, dy), 0.01);
+    const amount = force(length) / length;
+    a.dx += dx * amount;
+    a.dy += dy * amount;
+    b.dx -= dx * amount;
+    b.dy -= dy * amount;
+  };
+  const repel = (length: number) => (idealLength * idealLength) / length;
+  const attract = (length: number) => -(length * length) / idealLength;
+
+  const iterations = Math.max(
+    1,
+    Math.min(FORCE_ITERATIONS, Math.floor(FORCE_STEP_BUDGET / nodes.length))
+  );
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const temperature = idealLength * Math.sqrt(nodes.length) * (1 - iteration / iterations);
+
+    const tree = createForceTree(bodyList);
+    bodyList.forEach((body) => applyRepulsion(tree, body, repel));
+    edges.forEach(([from, to]) => {
+      const a = bodies.get(from);
+      const b = bodies.get(to);
+      if (a && b) {
+        push(a, b, attract);
+      }
+    });
+
+    const centroidX = bodyList.reduce((total, body) => total + body.x, 0) / bodyList.length;
+    const centroidY = bodyList.reduce((total, body) => total + body.y, 0) / bodyList.length;
+    bodyList.forEach((body) => {
+      const pull =
+        (Math.hypot(body.x - centroidX, body.y - centroidY) / idealLength) * FORCE_GRAVITY;
+      body.dx -= (body.x - centroidX) * pull;
+      body.dy -= (body.y - centroidY) * pull;
+
+      const length = Math.hypot(body.dx, body.dy);
+      const step = Math.min(length, temperature) / (length || 1);
+      body.x += body.dx * step;
+      body.y += body.dy * step;
+      body.dx = 0;
+      body.dy = 0;
+    });
+  }
+
+  // Push overlapping notes apart along the axis where they overlap least; notes overlap
+  // only when their centers are closer than the largest note plus the spacing
+  const overlapDistance =
+    Math.max(...nodes.map((node) => Math.max(node.width, node.height))) + spacing || 1;
+  for (let pass = 0, moved = true; pass < OVERLAP_PASSES && moved; pass += 1) {
+    moved = false;
+    forEachNearbyPair(bodyList, overlapDistance, (a, b) => {
+      const overlapX = (a.node.width + b.node.width + spacing) / 2 - Math.abs(a.x - b.x);
+      const overlapY = (a.node.height + b.node.height + spacing) / 2 - Math.abs(a.y - b.y);
+      if (overlapX <= 0 || overlapY <= 0) {
+        return;
+      }
+
+      moved = true;
+      const axis = overlapX < overlapY ? 'x' : 'y';
+      const shift = (Math.min(overlapX, overlapY) / 2) * (a[axis] < b[axis] ? -1 : 1);
+      a[axis] += shift;
+      b[axis] -= shift;
+    });
+  }
+
+  return new Map(
+    bodyList.map(({ node, x, y }) => [node, { x: x - node.width / 2, y: y - node.height / 2 }])
+  );
+}
+
+/**
+ * Top-left corners of a grid layout in reading order of the current drawing
+ */
+function getGridPositions(graph: LayoutGraph, spacing: number): Map<LayoutNode, Point> {
+  const { nodes } = graph;
+  const columns = Math.ceil(Math.sqrt(nodes.length));
+  const cellWidth = Math.max(0, ...nodes.map((node) => node.width)) + spacing;
+  const cellHeight = Math.max(0, ...nodes.map((node) => node.height)) + spacing;
+
+  return new Map(
+    [...nodes]
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .map((node, index) => [
+        node,
+        { x: (index % columns) * cellWidth, y: Math.floor(index / columns) * cellHeight },
+      ])
+  );
+}
+
+/**
+ * New top-left corners of the notes in a layout
+ * @param elementIds Elements whose notes are laid out; every note when omitted
+ * @returns Positions of the notes that move
+ */
+export function computeLayout(
+  elements: DiagramElement[],
+  options: LayoutOptions,
+  elementIds?: ID[]
+): Record<ID, Point> {
+  const graph = getLayoutGraph(elements, elementIds);
+  const { nodes } = graph;
+  if (nodes.length === 0) {
+    return {};
+  }
+
+  const spacing = options.spacing ?? LAYOUT_SPACING;
+  let positions: Map<LayoutNode, Point>;
+  switch (options.algorithm) {
+    case 'layered':
+      positions = getLayeredPositions(graph, options.direction ?? 'top-down', spacing);
+      break;
+    case 'force':
+      positions = getForcePositions(graph, spacing);
+      break;
+    case 'grid':
+      positions = getGridPositions(graph, spacing);
+      break;
+  }
+
+  // The layout starts where the notes did
+  const origin = getPointsBounds(nodes.map(({ x, y }) => ({ x, y })));
+  const laidOut = getPointsBounds([...positions.values()]);
+
+  return Object.fromEntries(
+    [...positions].flatMap(([node, position]) => {
+      const x = position.x - laidOut.x + origin.x;
+      const y = position.y - laidOut.y + origin.y;
+      return x === node.x && y === node.y ? [] : [[node.id, { x, y }]];
+    })
+  );
+}
+
+function easeInOut(progress: number): number {
+  return progress < 0.5 ? 2 * progress * progress : 1 - (-2 * progress + 2) ** 2 / 2;
+}
+
+function nextFrame(): Promise<number> {
+  return new Promise((resolve) => {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(resolve);
+    } else {
+      setTimeout(() => resolve(Date.now()), 16);
+    }
+  });
+}
+
+/**
+ * Lay out the notes of the current diagram and animate them to their new positions
+ * The animation is recorded as a single undo step, and routed connectors between the notes
+ * are routed again at the end. It stops when its transaction ends early, e.g. because
+ * another diagram was opened or a gesture that joined the transaction was cancelled.
+ * @param elementIds Elements whose notes are laid out; every note when omitted
+ * @param duration Length of the animation in milliseconds; 0 moves the notes at once
+ */
+export async function autoLayout(
+  options: LayoutOptions,
+  elementIds?: ID[],
+  duration = LAYOUT_ANIMATION_DURATION
+): Promise<void> {
+  const { currentDiagram, beginTransaction } = useDiagramStore.getState();
+  if (!currentDiagram) {
+    return;
+  }
+
+  const targets = computeLayout(currentDiagram.elements, options, elementIds);
+  const notes = currentDiagram.elements.filter((element) => element.id in targets);
+  if (notes.length === 0) {
+    return;
+  }
+
+  const getTransforms = (progress: number): Record<ID, ElementTransform> =>
+    Object.fromEntries(
+      notes.map((note) => {
+        const target = targets[note.id] ?? note.position;
+        return [
+          note.id,
+          {
+            position: {
+              x: note.position.x + (target.x - note.position.x) * progress,
+              y: note.position.y + (target.y - note.position.y) * progress,
+            },
+            size: { ...note.size },
+            ...(note.rotation !== undefined && { rotation: note.rotation }),
+          },
+        ];
+      })
+    );
+
+  const transactionId = beginTransaction(
+    `Auto layout ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}`
+  );
+  const isCurrent = () => {
+    const state = useDiagramStore.getState();
+    return (
+      state.currentDiagram?.id === currentDiagram.id &&
+      state.history.transaction?.id === transactionId
+    );
+  };
+
+  try {
+    const start = Date.now();
+    for (let progress = 0; progress < 1 && duration > 0; ) {
+      await nextFrame();
+      if (!isCurrent()) {
+        return;
+      }
+      progress = Math.min(1, (Date.now() - start) / duration);
+      useDiagramStore.getState().resizeElements(getTransforms(easeInOut(progress)));
+    }
+    useDiagramStore.getState().resizeElements(getTransforms(1));
+
+    const movedIds = new Set(notes.map((note) => note.id));
+    const routedIds = useDiagramStore
+      .getState()
+      .currentDiagram?.elements.filter(
+        (element) =>
+          element.type === ElementType.CONNECTOR &&
+          element.routing &&
+          (movedIds.has(element.startElement.elementId) ||
+            movedIds.has(element.endElement.elementId))
+      )
+      .map((element) => element.id);
+    if (routedIds && routedIds.length > 0) {
+      useDiagramStore.getState().rerouteConnectors(routedIds);
+    }
+  } finally {
+    if (isCurrent()) {
+      useDiagramStore.getState().commitTransaction();
+    }
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Autosave service
+ * Watches the diagram store and saves unsaved changes on a debounced timer, keeping rotating
+ * backups of earlier versions. Saves go through the default storage adapter unless it needs
+ * a user gesture, e.g. a file picker, in which case an adapter that writes silently is used.
+ */
+
+import { debounce, type DebouncedFunc } from 'lodash-es';
+
+import { useDiagramStore, type DiagramStore } from '@/stores/diagram-store';
+import { LoadingState } from '@/types/common';
+import type { Diagram } from '@/types/diagram';
+import {
+  type SaveResult,
+  type StorageConfig,
+  type StorageOperationStatus,
+  StorageErrorCode,
+} from '@/types/storage';
+import type { UserPreferences } from '@/types/ui';
+
+import { createStorageError, toStorageError } from './storage-adapter';
+import { getBackgroundAdapter } from './storage-config';
+
+/** Continuous editing postpones a save by at most this many intervals */
+const MAX_WAIT_INTERVALS = 3;
+
+/** Preferences that control autosave */
+export type AutoSavePreferences = Pick<UserPreferences, 'autoSave' | 'autoSaveInterval'>;
+
+/** Effective autosave settings */
+export interface AutoSaveSettings {
+  enabled: boolean;
+  /** Milliseconds without changes before saving */
+  interval: number;
+  maxBackups: number;
+}
+
+/** Options for creating an AutoSaveService */
+export interface AutoSaveOptions {
+  config: StorageConfig;
+  /** User preferences; they override the interval and can turn autosave off */
+  preferences?: AutoSavePreferences;
+}
+
+/** Listener notified whenever the autosave status changes */
+export type AutoSaveStatusListener = (status: StorageOperationStatus) => void;
+
+/**
+ * Combine the storage options with the user's preferences
+ * Autosave runs only when both the configuration and the user allow it, and when an adapter
+ * can save without user interaction.
+ */
+export function resolveAutoSaveSettings(
+  config: StorageConfig,
+  preferences?: AutoSavePreferences
+): AutoSaveSettings {
+  const interval = preferences?.autoSaveInterval ?? config.options.autoSaveInterval;
+
+  return {
+    enabled:
+      config.options.autoSave &&
+      (preferences?.autoSave ?? true) &&
+      interval > 0 &&
+      getBackgroundAdapter(config) !== null,
+    interval,
+    maxBackups: Math.max(0, config.options.maxBackups),
+  };
+}
+
+/**
+ * Saves the current diagram whenever it has unsaved changes
+ */
+export class AutoSaveService {
+  private settings: AutoSaveSettings;
+  private status: StorageOperationStatus = { operation: 'save', status: LoadingState.IDLE };
+  private readonly listeners = new Set<AutoSaveStatusListener>();
+  private scheduleSave: DebouncedFunc<() => void>;
+  private pendingSave: Promise<SaveResult | null> | null = null;
+  private saveAgain = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly options: AutoSaveOptions) {
+    this.settings = resolveAutoSaveSettings(options.config, options.preferences);
+    this.scheduleSave = this.createScheduler();
+  }
+
+  /**
+   * Start watching the diagram store
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    const unsubscribeStore = useDiagramStore.subscribe((state, previous) =>
+      this.handleStoreChange(state, previous)
+    );
+
+    // Save what we can before the page goes away
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        void this.flush();
+      }
+    };
+    const handlePageHide = () => void this.flush();
+
+    if (typeof window !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      window.addEventListener('pagehide', handlePageHide);
+    }
+
+    this.unsubscribe = () => {
+      unsubscribeStore();
+      if (typeof window !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        window.removeEventListener('pagehide', handlePageHide);
+      }
+    };
+
+    if (useDiagramStore.getState().isDirty) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Stop watching the store; a scheduled save is discarded
+   */
+  stop(): void {
+    this.scheduleSave.cancel();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Apply changed user preferences
+   */
+  updatePreferences(preferences: AutoSavePreferences | undefined): void {
+    this.settings = resolveAutoSaveSettings(this.options.config, preferences);
+    this.scheduleSave.cancel();
+    this.scheduleSave = this.createScheduler();
+
+    if (this.unsubscribe && useDiagramStore.getState().isDirty) {
+      this.schedule();
+    }
+  }
+
+  getSettings(): AutoSaveSettings {
+    return { ...this.settings };
+  }
+
+  getStatus(): StorageOperationStatus {
+    return this.status;
+  }
+
+  /**
+   * Listen for status changes
+   * @returns Function that removes the listener
+   */
+  onStatusChange(listener: AutoSaveStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Save immediately instead of waiting for the timer
+   * @returns The save result, or null when there was nothing to save
+   */
+  flush(): Promise<SaveResult | null> {
+    this.scheduleSave.cancel();
+
+    if (this.pendingSave) {
+      // Changes made while a save is running are picked up by the next one
+      this.saveAgain = true;
+      return this.pendingSave;
+    }
+
+    this.pendingSave = this.saveCurrentDiagram().finally(() => {
+      this.pendingSave = null;
+      if (this.saveAgain) {
+        this.saveAgain = false;
+        this.schedule();
+      }
+    });
+
+    return this.pendingSave;
+  }
+
+  private createScheduler(): DebouncedFunc<() => void> {
+    const { interval } = this.settings;
+    return debounce(() => void this.flush(), interval, {
+      maxWait: interval * MAX_WAIT_INTERVALS,
+    });
+  }
+
+  private schedule(): void {
+    if (this.settings.enabled) {
+      this.scheduleSave();
+    }
+  }
+
+  private handleStoreChange(state: DiagramStore, previous: DiagramStore): void {
+    const diagram = state.currentDiagram;
+    const previousDiagram = previous.currentDiagram;
+
+    // Another diagram was opened: save the changes of the one that was replaced
+    if (previousDiagram && previous.isDirty && previousDiagram.id !== diagram?.id) {
+      this.scheduleSave.cancel();
+      if (this.settings.enabled) {
+        void this.saveDiagram(previousDiagram);
+      }
+    }
+
+    if (!diagram || !state.isDirty) {
+      return;
+    }
+
+    if (!previous.isDirty || diagram.version !== previousDiagram?.version) {
+      this.schedule();
+    }
+  }
+
+  private async saveCurrentDiagram(): Promise<SaveResult | null> {
+    const { currentDiagram, isDirty } = useDiagramStore.getState();
+
+    if (!currentDiagram || !isDirty) {
+      return null;
+    }
+
+    const result = await this.saveDiagram(currentDiagram);
+
+    // Edits made while saving keep the diagram dirty for the next run
+    const state = useDiagramStore.getState();
+    if (result.success && state.currentDiagram === currentDiagram) {
+      state.markClean();
+    }
+
+    return result;
+  }
+
+  private async saveDiagram(diagram: Diagram): Promise<SaveResult> {
+    const { maxBackups } = this.settings;
+
+    this.setStatus({
+      operation: 'save',
+      status: LoadingState.LOADING,
+      message: `Saving "${diagram.name}"`,
+    });
+
+    const adapter = getBackgroundAdapter(this.options.config);
+    let result: SaveResult;
+    try {
+      result = adapter
+        ? await adapter.save(diagram, {
+            backup: maxBackups > 0,
+            maxBackups,
+            metadata: { autoSave: true },
+          })
+        : {
+            success: false,
+            id: diagram.id,
+            error: createStorageError(
+              StorageErrorCode.UNAVAILABLE,
+              'No storage adapter can save without user interaction'
+            ),
+          };
+    } catch (error) {
+      result = {
+        success: false,
+        id: diagram.id,
+        error: toStorageError(error, StorageErrorCode.WRITE_FAILED),
+      };
+    }
+
+    this.setStatus(
+      result.success
+        ? {
+            operation: 'save',
+            status: LoadingState.SUCCESS,
+            progress: 100,
+            message: `Saved "${diagram.name}"`,
+          }
+        : {
+            operation: 'save',
+            status: LoadingState.ERROR,
+            message: `Failed to save "${diagram.name}"`,
+            ...(result.error && { error: result.error }),
+          }
+    );
+
+    return result;
+  }
+
+  private setStatus(status: StorageOperationStatus): void {
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
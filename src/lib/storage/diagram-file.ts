@@ -0,0 +1,81 @@
+/**
+ * DiagramFile envelope serialization shared by file-based adapters
+ */
+
+import type { Diagram, DiagramFile } from '@/types/diagram';
+import { StorageErrorCode } from '@/types/storage';
+
+import { CURRENT_FILE_FORMAT_VERSION, migrateDiagramFile } from './migrations';
+import { StorageError } from './storage-adapter';
+import { formatValidationIssue, validateDiagramFile } from './validation';
+
+/** Application identifier written to DiagramFile.exportedBy by default */
+export const DEFAULT_EXPORTER = 'next-demo';
+
+/** Options for reading a DiagramFile */
+export interface ReadDiagramFileOptions {
+  /** Whether to validate the document after migrating it (default true) */
+  validate?: boolean;
+}
+
+/**
+ * Wrap a diagram in the current DiagramFile envelope
+ */
+export function createDiagramFile(diagram: Diagram, exportedBy = DEFAULT_EXPORTER): DiagramFile {
+  return {
+    version: CURRENT_FILE_FORMAT_VERSION,
+    diagram,
+    exportedAt: Date.now(),
+    exportedBy,
+  };
+}
+
+/**
+ * Serialize a diagram to DiagramFile JSON
+ */
+export function serializeDiagramFile(diagram: Diagram, exportedBy?: string): string {
+  return JSON.stringify(createDiagramFile(diagram, exportedBy), null, 2);
+}
+
+/**
+ * Migrate a raw document to the current format and validate it
+ * @throws StorageError with code INVALID_FORMAT and the validation issues in details
+ */
+export function readDiagramFile(raw: unknown, options: ReadDiagramFileOptions = {}): DiagramFile {
+  const { file } = migrateDiagramFile(raw);
+
+  if (options.validate !== false) {
+    const { valid, issues } = validateDiagramFile(file);
+
+    if (!valid) {
+      const [first] = issues;
+      const remaining = issues.length - 1;
+      const more =
+        remaining > 0 ? ` (and ${remaining} more ${remaining === 1 ? 'issue' : 'issues'})` : '';
+      throw new StorageError(
+        StorageErrorCode.INVALID_FORMAT,
+        `Invalid diagram file: ${first ? formatValidationIssue(first) : 'unknown issue'}${more}`,
+        { issues }
+      );
+    }
+  }
+
+  return file as DiagramFile;
+}
+
+/**
+ * Parse DiagramFile JSON, migrating and validating it
+ */
+export function parseDiagramFile(text: string, options?: ReadDiagramFileOptions): DiagramFile {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new StorageError(StorageErrorCode.INVALID_FORMAT, 'File is not valid JSON', {
+      originalError: error,
+    });
+  }
+
+  return readDiagramFile(raw, options);
+}
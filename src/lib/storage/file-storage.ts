@@ -0,0 +1,526 @@
+/**
+ * File storage adapter that reads and writes DiagramFile JSON documents
+ * Uses the File System Access API where available and falls back to browser download
+ * and file upload elsewhere. Listing is backed by a localStorage index of known files.
+ */
+
+import type { Diagram, DiagramInfo } from '@/types/diagram';
+import {
+  type StorageAdapter,
+  type SaveOptions,
+  type SaveResult,
+  type LoadOptions,
+  type LoadResult,
+  type DeleteResult,
+  type ListOptions,
+  type ListResult,
+  type FileStorageOptions,
+  StorageErrorCode,
+} from '@/types/storage';
+
+import { DEFAULT_EXPORTER, parseDiagramFile, serializeDiagramFile } from './diagram-file';
+import {
+  StorageError,
+  applyListOptions,
+  createStorageError,
+  toDiagramInfo,
+  toDiagramListRecord,
+  toStorageError,
+  type DiagramListRecord,
+} from './storage-adapter';
+
+/** Default options for the file adapter */
+const DEFAULT_FILE_OPTIONS: Required<Omit<FileStorageOptions, 'defaultDirectory'>> = {
+  allowedExtensions: ['.json'],
+  maxFileSize: 10 * 1024 * 1024,
+  useCompression: false,
+};
+
+/** localStorage key for the index of known diagram files */
+const FILE_INDEX_KEY = 'next-demo:file-storage:index';
+
+/** Suffix appended to compressed files */
+const COMPRESSED_SUFFIX = '.gz';
+
+/** MIME type of uncompressed diagram files */
+const JSON_MIME_TYPE = 'application/json';
+
+/** MIME type of compressed diagram files */
+const GZIP_MIME_TYPE = 'application/gzip';
+
+/** Directories the File System Access API accepts as a starting point */
+const WELL_KNOWN_DIRECTORIES = ['desktop', 'documents', 'downloads', 'music', 'pictures', 'videos'];
+
+/** File System Access API picker options (not yet part of the TypeScript DOM library) */
+interface FilePickerOptions {
+  id?: string;
+  suggestedName?: string;
+  startIn?: string;
+  multiple?: boolean;
+  excludeAcceptAllOption?: boolean;
+  types?: {
+    description?: string;
+    accept: Record<string, string[]>;
+  }[];
+}
+
+/** Window with the optional File System Access API pickers */
+type FileSystemAccessWindow = Window & {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+};
+
+/** Index entry for a diagram file the adapter has saved or opened */
+interface FileIndexEntry extends DiagramListRecord {
+  path: string;
+}
+
+/**
+ * Whether an error came from the user dismissing a picker
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Whether the bytes start with the gzip magic number
+ */
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Turn a diagram name into a safe file name stem
+ */
+function toFileStem(name: string): string {
+  const stem = name
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, '-');
+  return stem || 'diagram';
+}
+
+/**
+ * Storage adapter that persists diagrams as JSON files on the user's machine
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  readonly name = 'file';
+  readonly canRead = true;
+  readonly canWrite = true;
+  readonly canList = true;
+  readonly needsUserGesture = true;
+
+  private readonly options: typeof DEFAULT_FILE_OPTIONS &
+    Pick<FileStorageOptions, 'defaultDirectory'>;
+
+  /** File handles from the File System Access API, keyed by diagram ID */
+  private readonly handles = new Map<string, FileSystemFileHandle>();
+
+  constructor(options: FileStorageOptions = {}) {
+    this.options = {
+      ...DEFAULT_FILE_OPTIONS,
+      ...options,
+      allowedExtensions: (options.allowedExtensions ?? DEFAULT_FILE_OPTIONS.allowedExtensions).map(
+        (extension) => (extension.startsWith('.') ? extension : `.${extension}`).toLowerCase()
+      ),
+    };
+  }
+
+  /**
+   * Whether the File System Access API is available
+   */
+  static supportsFileSystemAccess(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      typeof (window as FileSystemAccessWindow).showSaveFilePicker === 'function' &&
+      typeof (window as FileSystemAccessWindow).showOpenFilePicker === 'function'
+    );
+  }
+
+  async save(diagram: Diagram, options: SaveOptions = {}): Promise<SaveResult> {
+    try {
+      const compress =
+        (options.compress ?? this.options.useCompression) &&
+        typeof CompressionStream !== 'undefined';
+      const handle = this.handles.get(diagram.id);
+      const filename = this.getFilename(diagram, options.filename ?? handle?.name, compress);
+
+      const extensionError = this.checkExtension(filename);
+      if (extensionError) {
+        return { success: false, id: diagram.id, error: extensionError };
+      }
+
+      const exportedBy =
+        typeof options.metadata?.exportedBy === 'string'
+          ? options.metadata.exportedBy
+          : (diagram.metadata.lastModifiedBy ?? DEFAULT_EXPORTER);
+      const blob = await this.createBlob(serializeDiagramFile(diagram, exportedBy), compress);
+
+      const sizeError = this.checkSize(blob.size);
+      if (sizeError) {
+        return { success: false, id: diagram.id, error: sizeError };
+      }
+
+      const path = FileStorageAdapter.supportsFileSystemAccess()
+        ? await this.writeWithFileSystemAccess(diagram.id, filename, blob, compress)
+        : this.download(filename, blob);
+
+      this.updateIndex({ ...toDiagramListRecord(diagram, blob.size), path });
+
+      return {
+        success: true,
+        id: diagram.id,
+        path,
+        size: blob.size,
+        metadata: { ...options.metadata, compressed: compress },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        id: diagram.id,
+        error: isAbortError(error)
+          ? createStorageError(StorageErrorCode.CANCELLED, 'Save was cancelled')
+          : toStorageError(error, StorageErrorCode.WRITE_FAILED),
+      };
+    }
+  }
+
+  /**
+   * Load a diagram file. Known diagrams with a File System Access handle are read
+   * directly; otherwise the user is asked to pick a file. A file that holds another
+   * diagram than the requested one is reported as NOT_FOUND.
+   */
+  async load(id: string, options: LoadOptions = {}): Promise<LoadResult> {
+    try {
+      const knownHandle = this.handles.get(id);
+      const { file, handle } = knownHandle
+        ? { file: await knownHandle.getFile(), handle: knownHandle }
+        : await this.pickFile();
+      const result = await this.loadFromFile(file, options);
+      if (!result.success) {
+        return result;
+      }
+
+      const loadedId = result.diagram?.id ?? result.metadata?.id;
+      if (loadedId !== id) {
+        return {
+          success: false,
+          error: createStorageError(
+            StorageErrorCode.NOT_FOUND,
+            `"${file.name}" does not contain diagram "${id}"`,
+            { id, loadedId }
+          ),
+        };
+      }
+
+      // Remember the handle so saving the loaded diagram writes back to the same file
+      if (handle) {
+        this.handles.set(id, handle);
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: isAbortError(error)
+          ? createStorageError(StorageErrorCode.CANCELLED, 'Load was cancelled')
+          : toStorageError(error, StorageErrorCode.READ_FAILED),
+      };
+    }
+  }
+
+  /**
+   * Load a diagram from a File obtained elsewhere (drag and drop, file input)
+   */
+  async loadFromFile(file: File, options: LoadOptions = {}): Promise<LoadResult> {
+    const extensionError = this.checkExtension(file.name);
+    if (extensionError) {
+      return { success: false, error: extensionError };
+    }
+
+    const sizeError = this.checkSize(file.size);
+    if (sizeError) {
+      return { success: false, error: sizeError };
+    }
+
+    try {
+      const { diagram } = parseDiagramFile(await this.readText(file), {
+        validate: options.validate !== false,
+      });
+      const record = toDiagramListRecord(diagram, file.size);
+      this.updateIndex({ ...record, path: file.name });
+
+      if (options.includeElements === false) {
+        return { success: true, metadata: toDiagramInfo(record) };
+      }
+
+      return { success: true, diagram, metadata: toDiagramInfo(record) };
+    } catch (error) {
+      return { success: false, error: toStorageError(error, StorageErrorCode.READ_FAILED) };
+    }
+  }
+
+  /**
+   * Forget a diagram file. Files on disk are never removed by the browser.
+   */
+  async delete(id: string): Promise<DeleteResult> {
+    const index = this.readIndex();
+
+    if (!index[id]) {
+      return {
+        success: false,
+        error: createStorageError(StorageErrorCode.NOT_FOUND, `Diagram "${id}" was not found`, {
+          id,
+        }),
+      };
+    }
+
+    delete index[id];
+    this.handles.delete(id);
+
+    try {
+      this.writeIndex(index);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: toStorageError(error, StorageErrorCode.DELETE_FAILED) };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    try {
+      return applyListOptions(Object.values(this.readIndex()), options);
+    } catch (error) {
+      return {
+        success: false,
+        diagrams: [],
+        total: 0,
+        hasMore: false,
+        error: toStorageError(error, StorageErrorCode.LIST_FAILED),
+      };
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return id in this.readIndex();
+  }
+
+  async getMetadata(id: string): Promise<DiagramInfo> {
+    const entry = this.readIndex()[id];
+
+    if (!entry) {
+      throw new StorageError(StorageErrorCode.NOT_FOUND, `Diagram "${id}" was not found`, { id });
+    }
+
+    const { path: _path, ...record } = entry;
+    return toDiagramInfo(record);
+  }
+
+  private getFilename(diagram: Diagram, requested: string | undefined, compress: boolean): string {
+    const base = requested ?? `${toFileStem(diagram.name)}${this.options.allowedExtensions[0]}`;
+    const withoutSuffix = base.endsWith(COMPRESSED_SUFFIX)
+      ? base.slice(0, -COMPRESSED_SUFFIX.length)
+      : base;
+    return compress ? `${withoutSuffix}${COMPRESSED_SUFFIX}` : withoutSuffix;
+  }
+
+  private checkExtension(filename: string) {
+    const name = filename.toLowerCase();
+    const withoutSuffix = name.endsWith(COMPRESSED_SUFFIX)
+      ? name.slice(0, -COMPRESSED_SUFFIX.length)
+      : name;
+
+    if (this.options.allowedExtensions.some((extension) => withoutSuffix.endsWith(extension))) {
+      return null;
+    }
+
+    return createStorageError(
+      StorageErrorCode.INVALID_EXTENSION,
+      `"${filename}" does not have an allowed extension (${this.options.allowedExtensions.join(', ')})`,
+      { filename, allowedExtensions: this.options.allowedExtensions }
+    );
+  }
+
+  private checkSize(size: number) {
+    if (size <= this.options.maxFileSize) {
+      return null;
+    }
+
+    return createStorageError(
+      StorageErrorCode.FILE_TOO_LARGE,
+      `File is ${size} bytes, which exceeds the ${this.options.maxFileSize} byte limit`,
+      { size, maxFileSize: this.options.maxFileSize }
+    );
+  }
+
+  private async createBlob(json: string, compress: boolean): Promise<Blob> {
+    if (!compress) {
+      return new Blob([json], { type: JSON_MIME_TYPE });
+    }
+
+    const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+    const compressed = await new Response(stream).arrayBuffer();
+    return new Blob([compressed], { type: GZIP_MIME_TYPE });
+  }
+
+  private async readText(file: File): Promise<string> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (!isGzip(bytes)) {
+      return new TextDecoder().decode(bytes);
+    }
+
+    if (typeof DecompressionStream === 'undefined') {
+      throw new StorageError(
+        StorageErrorCode.INVALID_FORMAT,
+        'Compressed diagram files are not supported in this browser'
+      );
+    }
+
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+  }
+
+  private getPickerTypes(): NonNullable<FilePickerOptions['types']> {
+    const extensions = this.options.allowedExtensions.flatMap((extension) => [
+      extension,
+      `${extension}${COMPRESSED_SUFFIX}`,
+    ]);
+
+    return [{ description: 'Diagram files', accept: { [JSON_MIME_TYPE]: extensions } }];
+  }
+
+  private getStartDirectory(): Pick<FilePickerOptions, 'startIn'> {
+    const { defaultDirectory } = this.options;
+    return defaultDirectory && WELL_KNOWN_DIRECTORIES.includes(defaultDirectory)
+      ? { startIn: defaultDirectory }
+      : {};
+  }
+
+  private async writeWithFileSystemAccess(
+    diagramId: string,
+    filename: string,
+    blob: Blob,
+    compress: boolean
+  ): Promise<string> {
+    let handle = this.handles.get(diagramId);
+
+    // A compression change alters the file name, so the previous handle cannot be reused
+    if (!handle || handle.name !== filename) {
+      const pickerWindow = window as FileSystemAccessWindow;
+      if (!pickerWindow.showSaveFilePicker) {
+        throw new StorageError(StorageErrorCode.UNAVAILABLE, 'File System Access is not available');
+      }
+      handle = await pickerWindow.showSaveFilePicker({
+        id: 'diagram-files',
+        suggestedName: filename,
+        types: compress
+          ? [
+              {
+                description: 'Compressed diagram',
+                accept: { [GZIP_MIME_TYPE]: [COMPRESSED_SUFFIX] },
+              },
+            ]
+          : this.getPickerTypes(),
+        ...this.getStartDirectory(),
+      });
+    }
+
+    const writable = await handle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+
+    this.handles.set(diagramId, handle);
+    return handle.name;
+  }
+
+  private download(filename: string, blob: Blob): string {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    anchor.style.display = 'none';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Revoke on the next tick so the browser has started the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return filename;
+  }
+
+  private async pickFile(): Promise<{ file: File; handle?: FileSystemFileHandle }> {
+    const pickerWindow = window as FileSystemAccessWindow;
+    if (!pickerWindow.showOpenFilePicker) {
+      return { file: await this.pickFileWithInput() };
+    }
+
+    const [handle] = await pickerWindow.showOpenFilePicker({
+      id: 'diagram-files',
+      multiple: false,
+      types: this.getPickerTypes(),
+      ...this.getStartDirectory(),
+    });
+
+    if (!handle) {
+      throw new StorageError(StorageErrorCode.CANCELLED, 'No file was selected');
+    }
+
+    return { file: await handle.getFile(), handle };
+  }
+
+  private pickFileWithInput(): Promise<File> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = this.options.allowedExtensions
+        .flatMap((extension) => [extension, `${extension}${COMPRESSED_SUFFIX}`])
+        .join(',');
+
+      input.addEventListener('change', () => {
+        const file = input.files?.[0];
+        if (file) {
+          resolve(file);
+        } else {
+          reject(new StorageError(StorageErrorCode.CANCELLED, 'No file was selected'));
+        }
+      });
+      input.addEventListener('cancel', () => {
+        reject(new StorageError(StorageErrorCode.CANCELLED, 'Load was cancelled'));
+      });
+
+      input.click();
+    });
+  }
+
+  private readIndex(): Record<string, FileIndexEntry> {
+    if (typeof localStorage === 'undefined') {
+      return {};
+    }
+
+    try {
+      const raw = localStorage.getItem(FILE_INDEX_KEY);
+      return raw ? (JSON.parse(raw) as Record<string, FileIndexEntry>) : {};
+    } catch {
+      // A corrupted index only loses the listing, never the files themselves
+      return {};
+    }
+  }
+
+  private writeIndex(index: Record<string, FileIndexEntry>): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    localStorage.setItem(FILE_INDEX_KEY, JSON.stringify(index));
+  }
+
+  private updateIndex(entry: FileIndexEntry): void {
+    const index = this.readIndex();
+    index[entry.id] = entry;
+
+    try {
+      this.writeIndex(index);
+    } catch {
+      // Quota errors must not fail the save itself
+    }
+  }
+}
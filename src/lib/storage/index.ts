@@ -0,0 +1,13 @@
+/**
+ * Storage layer exports: shared adapter helpers, file format handling and concrete adapters
+ */
+
+export * from './storage-adapter';
+export * from './storage-config';
+export * from './diagram-file';
+export * from './migrations';
+export * from './validation';
+export { IndexedDBStorageAdapter } from './indexeddb-storage';
+export { FileStorageAdapter } from './file-storage';
+export * from './autosave';
+export * from './recovery';
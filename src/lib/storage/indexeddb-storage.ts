@@ -0,0 +1,438 @@
+/**
+ * IndexedDB storage adapter for keeping diagrams in the browser
+ * Diagrams and their listing records live in separate object stores so that list and
+ * metadata queries never deserialize element data.
+ */
+
+import type { DiagramInfo, Diagram, DiagramFile } from '@/types/diagram';
+import {
+  type DiagramBackupInfo,
+  type StorageAdapter,
+  type SaveOptions,
+  type SaveResult,
+  type LoadOptions,
+  type LoadResult,
+  type DeleteResult,
+  type ListOptions,
+  type ListResult,
+  type IndexedDBStorageOptions,
+  StorageErrorCode,
+} from '@/types/storage';
+
+import { createDiagramFile, readDiagramFile } from './diagram-file';
+import {
+  StorageError,
+  applyListOptions,
+  createStorageError,
+  getSerializedSize,
+  toDiagramInfo,
+  toDiagramListRecord,
+  toStorageError,
+  type DiagramListRecord,
+} from './storage-adapter';
+
+/** Default database name */
+const DEFAULT_DATABASE_NAME = 'next-demo';
+
+/** Current database schema version */
+const DATABASE_VERSION = 2;
+
+/** Object store holding full diagram documents */
+const DIAGRAMS_STORE = 'diagrams';
+
+/** Object store holding listing records */
+const METADATA_STORE = 'metadata';
+
+/** Object store holding earlier versions of diagrams (added in schema version 2) */
+const BACKUPS_STORE = 'backups';
+
+/** Index of the backups store by diagram ID */
+const BACKUPS_BY_DIAGRAM_INDEX = 'diagramId';
+
+/** Record kept in the diagrams store; the envelope lets stored data be migrated on load */
+interface StoredDiagramRecord {
+  id: string;
+  file: DiagramFile;
+}
+
+/** Record kept in the backups store */
+interface StoredBackupRecord extends DiagramBackupInfo {
+  /** Primary key: `${diagramId}@${version}` */
+  key: string;
+  file: DiagramFile;
+}
+
+function getBackupKey(diagramId: string, version: string): string {
+  return `${diagramId}@${version}`;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Storage adapter backed by the browser's IndexedDB
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'indexeddb';
+  readonly canRead = true;
+  readonly canWrite = true;
+  readonly canList = true;
+  readonly needsUserGesture = false;
+
+  private readonly databaseName: string;
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.databaseName = options.databaseName ?? DEFAULT_DATABASE_NAME;
+  }
+
+  /**
+   * Whether IndexedDB is available in the current environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async save(diagram: Diagram, options: SaveOptions = {}): Promise<SaveResult> {
+    try {
+      const db = await this.openDatabase();
+      const serialized = JSON.stringify(createDiagramFile(diagram));
+      const size = getSerializedSize(serialized);
+      const record = toDiagramListRecord(diagram, size);
+      // Store the parsed copy so callers mutating their diagram cannot affect the stored one
+      const stored: StoredDiagramRecord = {
+        id: diagram.id,
+        file: JSON.parse(serialized) as DiagramFile,
+      };
+
+      const transaction = db.transaction(
+        [DIAGRAMS_STORE, METADATA_STORE, BACKUPS_STORE],
+        'readwrite'
+      );
+      // Awaited together so that a failed backup rotation cannot leave the commit unobserved
+      await Promise.all([
+        transactionDone(transaction),
+        (async () => {
+          if (options.backup) {
+            await this.rotateBackups(transaction, diagram.id, options.maxBackups);
+          }
+
+          transaction.objectStore(DIAGRAMS_STORE).put(stored);
+          transaction.objectStore(METADATA_STORE).put(record);
+        })(),
+      ]);
+
+      return {
+        success: true,
+        id: diagram.id,
+        size,
+        ...(options.metadata && { metadata: options.metadata }),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        id: diagram.id,
+        error: toStorageError(error, StorageErrorCode.WRITE_FAILED),
+      };
+    }
+  }
+
+  async load(id: string, options: LoadOptions = {}): Promise<LoadResult> {
+    try {
+      const db = await this.openDatabase();
+
+      if (options.version !== undefined) {
+        return await this.loadBackup(db, id, options.version, options);
+      }
+
+      if (options.includeElements === false) {
+        const record = await this.getRecord(db, id);
+        if (!record) {
+          return { success: false, error: this.notFound(id) };
+        }
+        return { success: true, metadata: toDiagramInfo(record) };
+      }
+
+      const transaction = db.transaction([DIAGRAMS_STORE, METADATA_STORE], 'readonly');
+      const [stored, record] = await Promise.all([
+        requestToPromise<StoredDiagramRecord | undefined>(
+          transaction.objectStore(DIAGRAMS_STORE).get(id)
+        ),
+        requestToPromise<DiagramListRecord | undefined>(
+          transaction.objectStore(METADATA_STORE).get(id)
+        ),
+      ]);
+
+      if (!stored) {
+        return { success: false, error: this.notFound(id) };
+      }
+
+      const { diagram } = readDiagramFile(stored.file, { validate: options.validate !== false });
+
+      return {
+        success: true,
+        diagram,
+        metadata: record ? toDiagramInfo(record) : toDiagramInfo(toDiagramListRecord(diagram)),
+      };
+    } catch (error) {
+      return { success: false, error: toStorageError(error, StorageErrorCode.READ_FAILED) };
+    }
+  }
+
+  async delete(id: string): Promise<DeleteResult> {
+    try {
+      const db = await this.openDatabase();
+
+      if (!(await this.getRecord(db, id))) {
+        return { success: false, error: this.notFound(id) };
+      }
+
+      const transaction = db.transaction(
+        [DIAGRAMS_STORE, METADATA_STORE, BACKUPS_STORE],
+        'readwrite'
+      );
+      const done = transactionDone(transaction);
+      transaction.objectStore(DIAGRAMS_STORE).delete(id);
+      transaction.objectStore(METADATA_STORE).delete(id);
+      const backupKeys = await requestToPromise(
+        transaction.objectStore(BACKUPS_STORE).index(BACKUPS_BY_DIAGRAM_INDEX).getAllKeys(id)
+      );
+      backupKeys.forEach((key) => transaction.objectStore(BACKUPS_STORE).delete(key));
+      await done;
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: toStorageError(error, StorageErrorCode.DELETE_FAILED) };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(METADATA_STORE, 'readonly');
+      const records = await requestToPromise<DiagramListRecord[]>(
+        transaction.objectStore(METADATA_STORE).getAll()
+      );
+
+      return applyListOptions(records, options);
+    } catch (error) {
+      return {
+        success: false,
+        diagrams: [],
+        total: 0,
+        hasMore: false,
+        error: toStorageError(error, StorageErrorCode.LIST_FAILED),
+      };
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(METADATA_STORE, 'readonly');
+    const count = await requestToPromise(transaction.objectStore(METADATA_STORE).count(id));
+    return count > 0;
+  }
+
+  async getMetadata(id: string): Promise<DiagramInfo> {
+    const db = await this.openDatabase();
+    const record = await this.getRecord(db, id);
+
+    if (!record) {
+      const { code, message } = this.notFound(id);
+      throw new StorageError(code, message, { id });
+    }
+
+    return toDiagramInfo(record);
+  }
+
+  /**
+   * List the stored backups of a diagram, newest first
+   */
+  async listBackups(id: string): Promise<DiagramBackupInfo[]> {
+    const db = await this.openDatabase();
+    const records = await this.getBackupRecords(db.transaction(BACKUPS_STORE, 'readonly'), id);
+
+    return records.map(({ diagramId, version, savedAt, size }) => ({
+      diagramId,
+      version,
+      savedAt,
+      ...(size !== undefined && { size }),
+    }));
+  }
+
+  /**
+   * Close the database connection; it is reopened on the next operation
+   */
+  async close(): Promise<void> {
+    if (!this.databasePromise) {
+      return;
+    }
+
+    const pending = this.databasePromise;
+    this.databasePromise = null;
+
+    try {
+      (await pending).close();
+    } catch {
+      // The connection never opened, nothing to close
+    }
+  }
+
+  /**
+   * Copy the currently stored version of a diagram into the backups store and drop
+   * the oldest backups beyond the limit
+   */
+  private async rotateBackups(
+    transaction: IDBTransaction,
+    id: string,
+    maxBackups = Infinity
+  ): Promise<void> {
+    const backups = transaction.objectStore(BACKUPS_STORE);
+    const current = await requestToPromise<StoredDiagramRecord | undefined>(
+      transaction.objectStore(DIAGRAMS_STORE).get(id)
+    );
+
+    if (current && maxBackups > 0) {
+      const version = String(current.file.exportedAt);
+      const backup: StoredBackupRecord = {
+        key: getBackupKey(id, version),
+        diagramId: id,
+        version,
+        savedAt: current.file.exportedAt,
+        size: getSerializedSize(JSON.stringify(current.file)),
+        file: current.file,
+      };
+      backups.put(backup);
+    }
+
+    const records = await this.getBackupRecords(transaction, id);
+    records.slice(Math.max(maxBackups, 0)).forEach((record) => backups.delete(record.key));
+  }
+
+  /**
+   * Backups of a diagram, newest first
+   */
+  private async getBackupRecords(
+    transaction: IDBTransaction,
+    id: string
+  ): Promise<StoredBackupRecord[]> {
+    const records = await requestToPromise<StoredBackupRecord[]>(
+      transaction.objectStore(BACKUPS_STORE).index(BACKUPS_BY_DIAGRAM_INDEX).getAll(id)
+    );
+    return records.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  private async loadBackup(
+    db: IDBDatabase,
+    id: string,
+    version: string,
+    options: LoadOptions
+  ): Promise<LoadResult> {
+    const transaction = db.transaction(BACKUPS_STORE, 'readonly');
+    const backup = await requestToPromise<StoredBackupRecord | undefined>(
+      transaction.objectStore(BACKUPS_STORE).get(getBackupKey(id, version))
+    );
+
+    if (!backup) {
+      return {
+        success: false,
+        error: createStorageError(
+          StorageErrorCode.NOT_FOUND,
+          `Backup "${version}" of diagram "${id}" was not found`,
+          { id, version }
+        ),
+      };
+    }
+
+    const { diagram } = readDiagramFile(backup.file, { validate: options.validate !== false });
+    const record = toDiagramListRecord(diagram, backup.size);
+
+    if (options.includeElements === false) {
+      return { success: true, metadata: toDiagramInfo(record) };
+    }
+
+    return { success: true, diagram, metadata: toDiagramInfo(record) };
+  }
+
+  private getRecord(db: IDBDatabase, id: string): Promise<DiagramListRecord | undefined> {
+    const transaction = db.transaction(METADATA_STORE, 'readonly');
+    return requestToPromise<DiagramListRecord | undefined>(
+      transaction.objectStore(METADATA_STORE).get(id)
+    );
+  }
+
+  private notFound(id: string) {
+    return createStorageError(StorageErrorCode.NOT_FOUND, `Diagram "${id}" was not found`, { id });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.databasePromise) {
+      return this.databasePromise;
+    }
+
+    if (!IndexedDBStorageAdapter.isSupported()) {
+      return Promise.reject(
+        new StorageError(
+          StorageErrorCode.UNAVAILABLE,
+          'IndexedDB is not available in this environment'
+        )
+      );
+    }
+
+    const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DIAGRAMS_STORE)) {
+        db.createObjectStore(DIAGRAMS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(METADATA_STORE)) {
+        db.createObjectStore(METADATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BACKUPS_STORE)) {
+        db.createObjectStore(BACKUPS_STORE, { keyPath: 'key' }).createIndex(
+          BACKUPS_BY_DIAGRAM_INDEX,
+          'diagramId'
+        );
+      }
+    };
+
+    this.databasePromise = requestToPromise(request)
+      .then((db) => {
+        // Another tab upgraded the schema: drop this connection and reopen lazily
+        db.onversionchange = () => {
+          db.close();
+          this.databasePromise = null;
+        };
+        return db;
+      })
+      .catch((error: unknown) => {
+        this.databasePromise = null;
+        throw new StorageError(
+          StorageErrorCode.UNAVAILABLE,
+          `Failed to open IndexedDB database "${this.databaseName}"`,
+          { originalError: error }
+        );
+      });
+
+    return this.databasePromise;
+  }
+}
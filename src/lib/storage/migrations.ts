@@ -0,0 +1,325 @@
+/**
+ * Versioned migrations for DiagramFile documents
+ * Files are upgraded one format version at a time until they reach the current version,
+ * so each migration only needs to understand its immediate predecessor.
+ */
+
+import type { ID } from '@/types/common';
+import { FileFormatVersion } from '@/types/diagram';
+import { type Connector, ElementType } from '@/types/elements';
+import { StorageErrorCode } from '@/types/storage';
+import {
+  type ConnectionSide,
+  createConnectionPoints,
+  isConnectionSide,
+} from '@/lib/canvas/connection-points';
+import {
+  flattenConnectorPath,
+  getConnectorPath,
+  getPolylineOffsetOfPoint,
+} from '@/lib/canvas/geometry';
+
+import { StorageError } from './storage-adapter';
+
+/** A single upgrade step between two adjacent file format versions */
+export interface FileMigration {
+  from: FileFormatVersion;
+  to: FileFormatVersion;
+  description: string;
+  migrate: (file: unknown) => unknown;
+}
+
+/** Outcome of running the migration pipeline */
+export interface MigrationResult {
+  /** The document in the current file format (not yet validated) */
+  file: unknown;
+  /** Version the document was stored in */
+  fromVersion: FileFormatVersion;
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+/** File format version written by this version of the application */
+export const CURRENT_FILE_FORMAT_VERSION = FileFormatVersion.V1_1;
+
+/** Format versions ordered from oldest to newest */
+const VERSION_ORDER: FileFormatVersion[] = [
+  FileFormatVersion.V0,
+  FileFormatVersion.V1,
+  FileFormatVersion.V1_1,
+];
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function toTimestamp(value: unknown, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? fallback : parsed;
+  }
+  return fallback;
+}
+
+/**
+ * Side of a legacy connection point; unknown values fall back to the right
+ */
+function legacySide(side: unknown): ConnectionSide {
+  return typeof side === 'string' && isConnectionSide(side) ? side : 'right';
+}
+
+/**
+ * Position of a side's midpoint on a legacy note
+ */
+function legacySidePosition(note: UnknownRecord | undefined, side: ConnectionSide) {
+  const position = isRecord(note?.position) ? note.position : {};
+  const x = toNumber(position.x, 0);
+  const y = toNumber(position.y, 0);
+  const width = toNumber(note?.width, 0);
+  const height = toNumber(note?.height, 0);
+
+  switch (side) {
+    case 'top':
+      return { x: x + width / 2, y };
+    case 'bottom':
+      return { x: x + width / 2, y: y + height };
+    case 'left':
+      return { x, y: y + height / 2 };
+    case 'right':
+      return { x: x + width, y: y + height / 2 };
+  }
+}
+
+/**
+ * V0 → V1: wrap the bare diagram in an envelope and expand the flat element fields
+ */
+function migrateV0ToV1(raw: unknown): unknown {
+  const legacy = isRecord(raw) ? raw : {};
+  const now = Date.now();
+  const createdAt = toTimestamp(legacy.createdAt, now);
+  const updatedAt = toTimestamp(legacy.updatedAt, createdAt);
+  const legacyElements = Array.isArray(legacy.elements) ? legacy.elements.filter(isRecord) : [];
+  const notesById = new Map(
+    legacyElements
+      .filter((element) => element.type === 'sticky-note')
+      .map((element) => [element.id, element])
+  );
+
+  const elements = legacyElements.map((element, index) => {
+    const base = {
+      id: element.id,
+      position: isRecord(element.position) ? element.position : { x: 0, y: 0 },
+      zIndex: index + 1,
+      createdAt,
+      updatedAt,
+    };
+
+    if (element.type === 'connector') {
+      const start = notesById.get(element.startElementId);
+      const end = notesById.get(element.endElementId);
+      const startSide = legacySide(element.startPoint);
+      const endSide = legacySide(element.endPoint);
+      return {
+        ...base,
+        type: ElementType.CONNECTOR,
+        size: { width: 0, height: 0 },
+        startElement: {
+          elementId: element.startElementId,
+          connectionPointId: startSide,
+          position: legacySidePosition(start, startSide),
+        },
+        endElement: {
+          elementId: element.endElementId,
+          connectionPointId: endSide,
+          position: legacySidePosition(end, endSide),
+        },
+        points: [],
+        style: {
+          strokeColor: '#000000',
+          strokeWidth: 2,
+          strokeStyle: 'solid',
+          arrowEnd: { type: 'triangle', size: 10, filled: true },
+        },
+      };
+    }
+
+    // Unknown legacy types are passed through so validation can point at them
+    if (element.type !== 'sticky-note') {
+      return { ...element, ...base };
+    }
+
+    const size = { width: toNumber(element.width, 200), height: toNumber(element.height, 150) };
+    return {
+      ...base,
+      type: ElementType.STICKY_NOTE,
+      size,
+      content: {
+        text: typeof element.text === 'string' ? element.text : '',
+        fontSize: toNumber(element.fontSize, 14),
+        fontFamily: 'Arial',
+        textAlign: 'left',
+        verticalAlign: 'top',
+      },
+      style: {
+        backgroundColor:
+          typeof element.backgroundColor === 'string' ? element.backgroundColor : '#ffeb3b',
+        textColor: '#000000',
+      },
+      connectionPoints: createConnectionPoints(element.id as ID, size),
+    };
+  });
+
+  const viewport = isRecord(legacy.viewport) ? legacy.viewport : {};
+
+  return {
+    version: FileFormatVersion.V1,
+    exportedAt: updatedAt,
+    diagram: {
+      id: legacy.id,
+      name: legacy.name,
+      elements,
+      viewport: {
+        zoom: toNumber(viewport.zoom, 1),
+        minZoom: 0.1,
+        maxZoom: 5,
+        offset: { x: toNumber(viewport.x, 0), y: toNumber(viewport.y, 0) },
+        size: { width: 800, height: 600 },
+        visibleArea: { x: 0, y: 0, width: 800, height: 600 },
+      },
+      metadata: { createdAt, updatedAt },
+      version: 1,
+    },
+  };
+}
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+  return isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+}
+
+/**
+ * Offset along a legacy connector's path closest to its absolute label position
+ */
+function legacyLabelOffset(connector: UnknownRecord, position: unknown): number {
+  const { startElement, endElement, points } = connector;
+  if (
+    !isPoint(position) ||
+    !isRecord(startElement) ||
+    !isPoint(startElement.position) ||
+    !isRecord(endElement) ||
+    !isPoint(endElement.position) ||
+    !Array.isArray(points) ||
+    !points.every(isPoint)
+  ) {
+    return 0.5;
+  }
+
+  const path = getConnectorPath(connector as unknown as Connector);
+  return getPolylineOffsetOfPoint(flattenConnectorPath(path), position);
+}
+
+/**
+ * V1 → V1.1: replace absolute connector label positions by offsets along the path
+ */
+function migrateV1ToV1_1(raw: unknown): unknown {
+  if (!isRecord(raw) || !isRecord(raw.diagram) || !Array.isArray(raw.diagram.elements)) {
+    return isRecord(raw) ? { ...raw, version: FileFormatVersion.V1_1 } : raw;
+  }
+
+  const elements = raw.diagram.elements.map((element: unknown) => {
+    if (!isRecord(element) || element.type !== ElementType.CONNECTOR || !isRecord(element.label)) {
+      return element;
+    }
+
+    const { position, ...label } = element.label;
+    return { ...element, label: { ...label, offset: legacyLabelOffset(element, position) } };
+  });
+
+  return { ...raw, version: FileFormatVersion.V1_1, diagram: { ...raw.diagram, elements } };
+}
+
+/** Registered migrations, one per adjacent version pair */
+const MIGRATIONS: FileMigration[] = [
+  {
+    from: FileFormatVersion.V0,
+    to: FileFormatVersion.V1,
+    description: 'Wrap legacy diagram in a file envelope and expand element fields',
+    migrate: migrateV0ToV1,
+  },
+  {
+    from: FileFormatVersion.V1,
+    to: FileFormatVersion.V1_1,
+    description: 'Place connector labels by their offset along the path',
+    migrate: migrateV1ToV1_1,
+  },
+];
+
+/**
+ * Determine the format version of a raw document
+ * @returns The version, or null when the document is not a recognizable diagram file
+ */
+export function detectFileVersion(raw: unknown): FileFormatVersion | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  if (isRecord(raw.diagram)) {
+    return VERSION_ORDER.find((version) => version === raw.version) ?? null;
+  }
+
+  // Legacy documents are a bare diagram with an elements array
+  if (Array.isArray(raw.elements)) {
+    return FileFormatVersion.V0;
+  }
+
+  return null;
+}
+
+/**
+ * Upgrade a raw document to the current file format version
+ * @throws StorageError when the version is unknown or newer than this application supports
+ */
+export function migrateDiagramFile(raw: unknown): MigrationResult {
+  const fromVersion = detectFileVersion(raw);
+
+  if (!fromVersion) {
+    const version = isRecord(raw) ? raw.version : undefined;
+    throw new StorageError(
+      StorageErrorCode.INVALID_FORMAT,
+      version === undefined
+        ? 'File is not a diagram document'
+        : `Unsupported file format version ${JSON.stringify(version)}`,
+      { version }
+    );
+  }
+
+  const applied: string[] = [];
+  let file = raw;
+  let version = fromVersion;
+
+  while (version !== CURRENT_FILE_FORMAT_VERSION) {
+    const migration = MIGRATIONS.find((candidate) => candidate.from === version);
+
+    if (!migration) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_FORMAT,
+        `No migration from file format version ${version} to ${CURRENT_FILE_FORMAT_VERSION}`,
+        { version }
+      );
+    }
+
+    file = migration.migrate(file);
+    version = migration.to;
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+  }
+
+  return { file, fromVersion, applied };
+}
@@ -0,0 +1,465 @@
+/**
+ * Crash recovery journal
+ * While the current diagram has unsaved changes it is journaled to localStorage together
+ * with its undo history, so the session can be restored after the tab crashes.
+ */
+
+import { debounce, isEqual } from 'lodash-es';
+
+import { useDiagramStore, type DiagramStore } from '@/stores/diagram-store';
+import { useUIStore } from '@/stores/ui-store';
+import type { Timestamp } from '@/types/common';
+import type { Diagram, DiagramState } from '@/types/diagram';
+import { type StorageConfig, StorageErrorCode } from '@/types/storage';
+import { type ConfirmDialogData, DialogType } from '@/types/ui';
+
+import { getBackgroundAdapter, getDefaultAdapter } from './storage-config';
+import { validateDiagram } from './validation';
+
+/** localStorage key of the journal */
+const JOURNAL_KEY = 'next-demo:recovery:journal';
+
+/** localStorage key of the last saved updatedAt per diagram */
+const SAVED_MARKERS_KEY = 'next-demo:recovery:saved';
+
+/**
+ * Stands in for undefined values in the journal, which JSON would drop
+ * Update operations record fields an element did not have as undefined, and undo relies on
+ * them to remove those fields again.
+ */
+const UNDEFINED_MARKER = { $undefined: true } as const;
+
+/** Number of saved markers kept; older diagrams are forgotten first */
+const MAX_SAVED_MARKERS = 50;
+
+/** Quiet period before the journal is rewritten (ms) */
+const JOURNAL_DELAY = 1000;
+
+/** Longest time continuous editing can postpone a journal write (ms) */
+const JOURNAL_MAX_WAIT = 5000;
+
+/** Journaled session */
+export interface RecoveryJournal {
+  diagram: Diagram;
+  history: Pick<DiagramState['history'], 'past' | 'future'>;
+  journaledAt: Timestamp;
+}
+
+/** Differences between a saved diagram and a journaled one */
+export interface DiagramChangeSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  renamed: boolean;
+  descriptionChanged: boolean;
+}
+
+/** How the user answered the recovery prompt */
+export type RecoveryDecision = 'restored' | 'discarded' | 'dismissed' | 'none';
+
+function getStorage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+function readJson(key: string): unknown {
+  const raw = getStorage()?.getItem(key);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function isUndefinedMarker(value: unknown): boolean {
+  return isEqual(value, UNDEFINED_MARKER);
+}
+
+/**
+ * Turn undefined markers of a parsed journal back into undefined values, in place
+ */
+function restoreUndefinedValues(value: unknown): unknown {
+  if (isUndefinedMarker(value)) {
+    return undefined;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const target = value as Record<string, unknown>;
+    Object.keys(target).forEach((key) => {
+      target[key] = restoreUndefinedValues(target[key]);
+    });
+  }
+  return value;
+}
+
+function readSavedMarkers(): Record<string, Timestamp> {
+  const markers = readJson(SAVED_MARKERS_KEY);
+  return typeof markers === 'object' && markers !== null && !Array.isArray(markers)
+    ? (markers as Record<string, Timestamp>)
+    : {};
+}
+
+/**
+ * Read the journal, or null when there is none or it cannot be used
+ */
+export function readRecoveryJournal(): RecoveryJournal | null {
+  const journal = restoreUndefinedValues(readJson(JOURNAL_KEY)) as RecoveryJournal | null;
+
+  if (
+    !journal ||
+    typeof journal.journaledAt !== 'number' ||
+    !Array.isArray(journal.history?.past) ||
+    !Array.isArray(journal.history.future) ||
+    !validateDiagram(journal.diagram).valid
+  ) {
+    return null;
+  }
+
+  return journal;
+}
+
+/**
+ * Journal a diagram and its undo history
+ * When the history does not fit into the quota only the diagram is kept.
+ * @returns Whether the journal was written
+ */
+export function writeRecoveryJournal(
+  diagram: Diagram,
+  history: RecoveryJournal['history']
+): boolean {
+  const storage = getStorage();
+  if (!storage) {
+    return false;
+  }
+
+  const journaledAt = Date.now();
+  const attempts: RecoveryJournal[] = [
+    { diagram, history: { past: history.past, future: history.future }, journaledAt },
+    { diagram, history: { past: [], future: [] }, journaledAt },
+  ];
+
+  return attempts.some((journal) => {
+    try {
+      storage.setItem(
+        JOURNAL_KEY,
+        JSON.stringify(journal, (_key, value: unknown) =>
+          value === undefined ? UNDEFINED_MARKER : value
+        )
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function clearRecoveryJournal(): void {
+  getStorage()?.removeItem(JOURNAL_KEY);
+}
+
+/**
+ * Remember which version of a diagram is known to be saved
+ */
+export function markDiagramSaved(diagram: Diagram): void {
+  const storage = getStorage();
+  if (!storage) {
+    return;
+  }
+
+  const markers = readSavedMarkers();
+  delete markers[diagram.id];
+  markers[diagram.id] = diagram.metadata.updatedAt;
+
+  const entries = Object.entries(markers);
+  try {
+    storage.setItem(
+      SAVED_MARKERS_KEY,
+      JSON.stringify(Object.fromEntries(entries.slice(-MAX_SAVED_MARKERS)))
+    );
+  } catch {
+    // The marker only avoids needless prompts; the journal comparison still works
+  }
+}
+
+/**
+ * updatedAt of the last saved version of a diagram, if known
+ * @param config When given, the default adapter is asked as well
+ */
+export async function getLastSavedAt(id: string, config?: StorageConfig): Promise<Timestamp> {
+  let savedAt = readSavedMarkers()[id] ?? 0;
+
+  if (config) {
+    try {
+      const { lastModified } = await getDefaultAdapter(config).getMetadata(id);
+      savedAt = Math.max(savedAt, lastModified);
+    } catch {
+      // Never saved through this adapter
+    }
+  }
+
+  return savedAt;
+}
+
+/**
+ * Find a journal holding changes newer than the last saved version
+ * Journals that are out of date are removed.
+ */
+export async function findRecoverableJournal(
+  config?: StorageConfig
+): Promise<RecoveryJournal | null> {
+  const journal = readRecoveryJournal();
+
+  if (!journal) {
+    clearRecoveryJournal();
+    return null;
+  }
+
+  const savedAt = await getLastSavedAt(journal.diagram.id, config);
+  if (journal.diagram.metadata.updatedAt <= savedAt) {
+    clearRecoveryJournal();
+    return null;
+  }
+
+  return journal;
+}
+
+/**
+ * Count the differences between two versions of a diagram
+ * @param base The saved version, or null when the diagram was never saved
+ */
+export function summarizeDiagramChanges(base: Diagram | null, next: Diagram): DiagramChangeSummary {
+  const baseElements = new Map(base?.elements.map((element) => [element.id, element]));
+  const nextIds = new Set(next.elements.map((element) => element.id));
+
+  let added = 0;
+  let modified = 0;
+  next.elements.forEach((element) => {
+    const previous = baseElements.get(element.id);
+    if (!previous) {
+      added += 1;
+    } else if (!isEqual(previous, element)) {
+      modified += 1;
+    }
+  });
+
+  return {
+    added,
+    removed: [...baseElements.keys()].filter((id) => !nextIds.has(id)).length,
+    modified,
+    renamed: base !== null && base.name !== next.name,
+    descriptionChanged: base !== null && base.description !== next.description,
+  };
+}
+
+/**
+ * Describe a change summary as readable lines
+ */
+export function formatChangeSummary(summary: DiagramChangeSummary): string[] {
+  const count = (value: number) => `${value} ${value === 1 ? 'element' : 'elements'}`;
+  const lines: string[] = [];
+
+  if (summary.added > 0) {
+    lines.push(`${count(summary.added)} added`);
+  }
+  if (summary.modified > 0) {
+    lines.push(`${count(summary.modified)} changed`);
+  }
+  if (summary.removed > 0) {
+    lines.push(`${count(summary.removed)} removed`);
+  }
+  if (summary.renamed) {
+    lines.push('Diagram renamed');
+  }
+  if (summary.descriptionChanged) {
+    lines.push('Description changed');
+  }
+
+  return lines;
+}
+
+/**
+ * Keeps the journal in sync with the diagram store
+ */
+export class CrashRecoveryJournal {
+  private unsubscribe: (() => void) | null = null;
+
+  private readonly scheduleWrite = debounce(() => this.flush(), JOURNAL_DELAY, {
+    maxWait: JOURNAL_MAX_WAIT,
+  });
+
+  /**
+   * Start journaling changes of the current diagram
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    const unsubscribeStore = useDiagramStore.subscribe((state, previous) =>
+      this.handleStoreChange(state, previous)
+    );
+    const handlePageHide = () => this.flush();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', handlePageHide);
+    }
+
+    this.unsubscribe = () => {
+      unsubscribeStore();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', handlePageHide);
+      }
+    };
+
+    if (useDiagramStore.getState().isDirty) {
+      this.scheduleWrite();
+    }
+  }
+
+  /**
+   * Stop journaling; the journal itself is kept
+   */
+  stop(): void {
+    this.scheduleWrite.flush();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Write the journal now if the current diagram has unsaved changes
+   */
+  flush(): void {
+    this.scheduleWrite.cancel();
+
+    const { currentDiagram, isDirty, history } = useDiagramStore.getState();
+    if (currentDiagram && isDirty) {
+      writeRecoveryJournal(currentDiagram, history);
+    }
+  }
+
+  private handleStoreChange(state: DiagramStore, previous: DiagramStore): void {
+    const diagram = state.currentDiagram;
+
+    if (diagram && state.isDirty) {
+      if (diagram !== previous.currentDiagram || !previous.isDirty) {
+        this.scheduleWrite();
+      }
+      return;
+    }
+
+    // The diagram was saved (or a saved one was opened): the journal is obsolete
+    if (diagram && previous.isDirty && diagram.id === previous.currentDiagram?.id) {
+      this.scheduleWrite.cancel();
+      markDiagramSaved(diagram);
+      clearRecoveryJournal();
+    }
+  }
+}
+
+/**
+ * Saved version of a diagram for comparison, or null when it was never saved
+ * Only adapters that read without a user gesture are asked, so comparing never opens a
+ * file picker.
+ * @throws StorageError when the saved version exists but cannot be read
+ */
+async function loadSavedVersion(id: string, config?: StorageConfig): Promise<Diagram | null> {
+  const adapter = config && getBackgroundAdapter(config);
+  if (!adapter) {
+    return null;
+  }
+
+  const result = await adapter.load(id, { validate: false });
+  if (result.error && result.error.code !== StorageErrorCode.NOT_FOUND) {
+    throw result.error;
+  }
+  return result.diagram ?? null;
+}
+
+/**
+ * Offer to restore, compare or discard a journaled session through the confirm dialog
+ * @param config Storage configuration used to look up the saved version
+ * @returns How the prompt was answered; 'none' when there was nothing to recover
+ */
+export async function promptCrashRecovery(config?: StorageConfig): Promise<RecoveryDecision> {
+  const journal = await findRecoverableJournal(config);
+  if (!journal) {
+    return 'none';
+  }
+
+  const { diagram, history } = journal;
+  const { openDialog, closeDialog } = useUIStore.getState();
+
+  return new Promise((resolve) => {
+    let decided = false;
+
+    const decide = (decision: RecoveryDecision) => {
+      decided = true;
+      unsubscribe();
+      closeDialog();
+      resolve(decision);
+    };
+
+    const restore = () => {
+      useDiagramStore.getState().restoreSession(diagram, history);
+      decide('restored');
+    };
+
+    const discard = () => {
+      clearRecoveryJournal();
+      decide('discarded');
+    };
+
+    const compare = async () => {
+      let details: string[];
+      try {
+        const saved = await loadSavedVersion(diagram.id, config);
+        const changes = formatChangeSummary(summarizeDiagramChanges(saved, diagram));
+        details = changes;
+        if (!saved) {
+          details = ['This diagram was never saved', ...changes];
+        } else if (changes.length === 0) {
+          details = ['Only the view differs from the saved version'];
+        }
+      } catch (error) {
+        details = [
+          `The saved version could not be read: ${error instanceof Error ? error.message : String(error)}`,
+        ];
+      }
+
+      if (!decided) {
+        openDialog(DialogType.CONFIRM, {
+          ...dialogData,
+          details,
+          actions: [
+            { label: 'Restore', action: restore, style: 'primary' },
+            { label: 'Discard', action: discard, style: 'secondary' },
+          ],
+        } satisfies ConfirmDialogData);
+      }
+    };
+
+    const dialogData: ConfirmDialogData = {
+      title: 'Recover unsaved changes?',
+      message: `"${diagram.name}" has changes from ${new Date(
+        diagram.metadata.updatedAt
+      ).toLocaleString()} that were not saved.`,
+      actions: [
+        { label: 'Restore', action: restore, style: 'primary' },
+        { label: 'Compare', action: () => void compare(), style: 'secondary' },
+        { label: 'Discard', action: discard, style: 'secondary' },
+      ],
+    };
+
+    // Closing the dialog without choosing keeps the journal for the next launch
+    const unsubscribe = useUIStore.subscribe((state) => {
+      if (!state.dialog.open && !decided) {
+        decide('dismissed');
+      }
+    });
+
+    openDialog(DialogType.CONFIRM, dialogData);
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Shared building blocks for StorageAdapter implementations
+ * Provides structured storage errors, diagram info extraction and list option handling
+ */
+
+import type { AppError, Timestamp } from '@/types/common';
+import type { Diagram, DiagramInfo } from '@/types/diagram';
+import type { ListOptions, ListResult, StorageErrorCode } from '@/types/storage';
+
+/** Error thrown by adapter methods that cannot report failures through a result object */
+export class StorageError extends Error implements AppError {
+  readonly code: StorageErrorCode | string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: StorageErrorCode | string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+    if (details) {
+      this.details = details;
+    }
+  }
+}
+
+/**
+ * Create a plain AppError for adapter result objects
+ */
+export function createStorageError(
+  code: StorageErrorCode | string,
+  message: string,
+  details?: Record<string, unknown>
+): AppError {
+  return {
+    code,
+    message,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Convert any thrown value into an AppError, keeping the code of StorageErrors
+ */
+export function toStorageError(error: unknown, fallbackCode: StorageErrorCode | string): AppError {
+  if (error instanceof StorageError) {
+    return createStorageError(error.code, error.message, error.details);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return createStorageError(fallbackCode, message, { originalError: error });
+}
+
+/**
+ * Size in bytes of a serialized diagram payload
+ */
+export function getSerializedSize(serialized: string): number {
+  return new TextEncoder().encode(serialized).length;
+}
+
+/** Listing record that carries the fields needed to filter and sort without the elements */
+export interface DiagramListRecord extends DiagramInfo {
+  createdAt: Timestamp;
+  tags: string[];
+}
+
+/**
+ * Build the listing record for a diagram
+ */
+export function toDiagramListRecord(diagram: Diagram, fileSize?: number): DiagramListRecord {
+  const { metadata } = diagram;
+
+  return {
+    id: diagram.id,
+    name: diagram.name,
+    lastModified: metadata.updatedAt,
+    createdAt: metadata.createdAt,
+    tags: metadata.tags ? [...metadata.tags] : [],
+    ...(metadata.thumbnail && { thumbnail: metadata.thumbnail }),
+    ...(fileSize !== undefined && { fileSize }),
+  };
+}
+
+/**
+ * Strip the listing-only fields from a record
+ */
+export function toDiagramInfo(record: DiagramListRecord): DiagramInfo {
+  const { createdAt: _createdAt, tags: _tags, ...info } = record;
+  return info;
+}
+
+/** Sort accessors for each ListOptions.sortBy field */
+const SORT_ACCESSORS: Record<
+  NonNullable<ListOptions['sortBy']>,
+  (record: DiagramListRecord) => string | number
+> = {
+  name: (record) => record.name.toLocaleLowerCase(),
+  created: (record) => record.createdAt,
+  modified: (record) => record.lastModified,
+  size: (record) => record.fileSize ?? 0,
+};
+
+/**
+ * Apply filtering, sorting and pagination from ListOptions to a set of records
+ * Tag filters match diagrams carrying every requested tag; date ranges apply to the
+ * last modification time and are inclusive on both ends.
+ */
+export function applyListOptions(
+  records: DiagramListRecord[],
+  options: ListOptions = {}
+): ListResult {
+  const {
+    sortBy = 'modified',
+    sortOrder = sortBy === 'name' ? 'asc' : 'desc',
+    nameFilter,
+    tags,
+    dateRange,
+    offset = 0,
+    limit,
+  } = options;
+
+  const normalizedFilter = nameFilter?.trim().toLocaleLowerCase();
+  const from = dateRange?.from?.getTime();
+  const to = dateRange?.to?.getTime();
+
+  const filtered = records.filter((record) => {
+    if (normalizedFilter && !record.name.toLocaleLowerCase().includes(normalizedFilter)) {
+      return false;
+    }
+    if (tags && tags.length > 0 && !tags.every((tag) => record.tags.includes(tag))) {
+      return false;
+    }
+    if (from !== undefined && record.lastModified < from) {
+      return false;
+    }
+    if (to !== undefined && record.lastModified > to) {
+      return false;
+    }
+    return true;
+  });
+
+  const accessor = SORT_ACCESSORS[sortBy];
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  filtered.sort((a, b) => {
+    const valueA = accessor(a);
+    const valueB = accessor(b);
+    if (valueA < valueB) {
+      return -direction;
+    }
+    if (valueA > valueB) {
+      return direction;
+    }
+    // Stable tie-breaker so pagination never shuffles equal entries
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+
+  const start = Math.max(0, offset);
+  const end = limit !== undefined ? start + Math.max(0, limit) : undefined;
+  const page = filtered.slice(start, end);
+
+  return {
+    success: true,
+    diagrams: page.map(toDiagramInfo),
+    total: filtered.length,
+    hasMore: start + page.length < filtered.length,
+  };
+}
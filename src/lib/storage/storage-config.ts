@@ -0,0 +1,100 @@
+/**
+ * Storage configuration helpers
+ * Builds StorageConfig objects and applies their global options to adapter calls
+ */
+
+import {
+  type LoadOptions,
+  type LoadResult,
+  type StorageAdapter,
+  type StorageConfig,
+  StorageErrorCode,
+} from '@/types/storage';
+
+import { FileStorageAdapter } from './file-storage';
+import { IndexedDBStorageAdapter } from './indexeddb-storage';
+import { StorageError } from './storage-adapter';
+
+/** Default global storage options */
+export const DEFAULT_STORAGE_OPTIONS: StorageConfig['options'] = {
+  autoSave: true,
+  autoSaveInterval: 30000,
+  maxBackups: 5,
+  validateOnLoad: true,
+};
+
+/**
+ * Create a storage configuration from a set of adapters
+ * @param adapters Available adapters; the first one becomes the default unless overridden
+ * @param overrides Partial configuration overrides
+ */
+export function createStorageConfig(
+  adapters: StorageAdapter[],
+  overrides: Partial<Omit<StorageConfig, 'adapters' | 'options'>> & {
+    options?: Partial<StorageConfig['options']>;
+  } = {}
+): StorageConfig {
+  return {
+    defaultAdapter: overrides.defaultAdapter ?? adapters[0]?.name ?? '',
+    adapters: Object.fromEntries(adapters.map((adapter) => [adapter.name, adapter])),
+    options: { ...DEFAULT_STORAGE_OPTIONS, ...overrides.options },
+  };
+}
+
+/**
+ * Storage configuration of the application
+ * Diagrams are kept in IndexedDB where it is available and can be saved to and opened
+ * from files as well.
+ */
+export function createAppStorageConfig(): StorageConfig {
+  return createStorageConfig([
+    ...(IndexedDBStorageAdapter.isSupported() ? [new IndexedDBStorageAdapter()] : []),
+    new FileStorageAdapter(),
+  ]);
+}
+
+/**
+ * Resolve the default adapter of a configuration
+ * @throws StorageError when the default adapter is not registered
+ */
+export function getDefaultAdapter(config: StorageConfig): StorageAdapter {
+  const adapter = config.adapters[config.defaultAdapter];
+
+  if (!adapter) {
+    throw new StorageError(
+      StorageErrorCode.UNAVAILABLE,
+      `Storage adapter "${config.defaultAdapter}" is not configured`
+    );
+  }
+
+  return adapter;
+}
+
+/**
+ * Load a diagram through the default adapter, validating according to validateOnLoad
+ * unless the caller decides explicitly
+ */
+export function loadFromStorage(
+  config: StorageConfig,
+  id: string,
+  options: LoadOptions = {}
+): Promise<LoadResult> {
+  return getDefaultAdapter(config).load(id, {
+    ...options,
+    validate: options.validate ?? config.options.validateOnLoad,
+  });
+}
+
+/**
+ * Adapter for reads and writes the user did not ask for, such as autosave
+ * @returns The default adapter unless it needs a user gesture, otherwise the first
+ * configured adapter that does not; null when there is none
+ */
+export function getBackgroundAdapter(config: StorageConfig): StorageAdapter | null {
+  const defaultAdapter = config.adapters[config.defaultAdapter];
+  if (defaultAdapter && !defaultAdapter.needsUserGesture) {
+    return defaultAdapter;
+  }
+
+  return Object.values(config.adapters).find((adapter) => !adapter.needsUserGesture) ?? null;
+}
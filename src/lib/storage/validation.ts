@@ -0,0 +1,648 @@
+/**
+ * Schema validation for loaded diagrams and DiagramFile documents
+ * Every issue carries the JSON path of the offending value and, for element data,
+ * the ID of the element it belongs to.
+ */
+
+import type { ID } from '@/types/common';
+import { FileFormatVersion } from '@/types/diagram';
+import { ElementType } from '@/types/elements';
+
+/** A single problem found while validating */
+export interface ValidationIssue {
+  /** JSON path of the invalid value, e.g. `$.diagram.elements[3].style.opacity` */
+  path: string;
+  /** Human readable description of the problem */
+  message: string;
+  /** ID of the element the value belongs to, when inside an element */
+  elementId?: ID;
+}
+
+/** Outcome of a validation run */
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const TEXT_ALIGNMENTS = ['left', 'center', 'right'];
+const VERTICAL_ALIGNMENTS = ['top', 'middle', 'bottom'];
+const STROKE_STYLES = ['solid', 'dashed', 'dotted'];
+const ARROW_TYPES = ['triangle', 'circle', 'diamond', 'none'];
+const CONNECTOR_ROUTINGS = ['straight', 'orthogonal', 'curved'];
+const CONNECTION_POINT_TYPES = ['input', 'output', 'both'];
+const SHAPE_KINDS = ['rectangle', 'ellipse', 'diamond'];
+const FONT_WEIGHTS = ['normal', 'bold'];
+const CONNECTABLE_TYPES: unknown[] = [ElementType.STICKY_NOTE, ElementType.SHAPE];
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Accumulates issues while walking a document
+ */
+class Validator {
+  readonly issues: ValidationIssue[] = [];
+  private elementId: ID | undefined;
+
+  /** Run checks attributed to an element */
+  forElement(elementId: ID | undefined, checks: () => void): void {
+    const previous = this.elementId;
+    this.elementId = elementId;
+    checks();
+    this.elementId = previous;
+  }
+
+  report(path: string, message: string): void {
+    this.issues.push({
+      path,
+      message,
+      ...(this.elementId !== undefined && { elementId: this.elementId }),
+    });
+  }
+
+  record(value: unknown, path: string): value is UnknownRecord {
+    if (!isRecord(value)) {
+      this.report(path, `expected an object, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  string(value: unknown, path: string, { optional = false, nonEmpty = false } = {}): void {
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      this.report(path, `expected a string, got ${describe(value)}`);
+    } else if (nonEmpty && value.trim().length === 0) {
+      this.report(path, 'must not be empty');
+    }
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    { optional = false, min, max }: { optional?: boolean; min?: number; max?: number } = {}
+  ): void {
+    if (value === undefined && optional) {
+      return;
+    }
+    if (!isFiniteNumber(value)) {
+      this.report(path, `expected a finite number, got ${describe(value)}`);
+    } else if (min !== undefined && value < min) {
+      this.report(path, `must be at least ${min}, got ${value}`);
+    } else if (max !== undefined && value > max) {
+      this.report(path, `must be at most ${max}, got ${value}`);
+    }
+  }
+
+  boolean(value: unknown, path: string, { optional = false } = {}): void {
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'boolean') {
+      this.report(path, `expected a boolean, got ${describe(value)}`);
+    }
+  }
+
+  oneOf(value: unknown, allowed: string[], path: string, { optional = false } = {}): void {
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.report(path, `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  point(value: unknown, path: string): void {
+    if (this.record(value, path)) {
+      this.number(value.x, `${path}.x`);
+      this.number(value.y, `${path}.y`);
+    }
+  }
+
+  size(value: unknown, path: string): void {
+    if (this.record(value, path)) {
+      this.number(value.width, `${path}.width`, { min: 0 });
+      this.number(value.height, `${path}.height`, { min: 0 });
+    }
+  }
+}
+
+/**
+ * Validate the viewport block of a diagram
+ */
+function validateViewport(validator: Validator, viewport: unknown, path: string): void {
+  if (!validator.record(viewport, path)) {
+    return;
+  }
+
+  validator.number(viewport.zoom, `${path}.zoom`, { min: Number.MIN_VALUE });
+  validator.number(viewport.minZoom, `${path}.minZoom`, { min: Number.MIN_VALUE });
+  validator.number(viewport.maxZoom, `${path}.maxZoom`, { min: Number.MIN_VALUE });
+  validator.point(viewport.offset, `${path}.offset`);
+  validator.size(viewport.size, `${path}.size`);
+
+  if (validator.record(viewport.visibleArea, `${path}.visibleArea`)) {
+    validator.point(viewport.visibleArea, `${path}.visibleArea`);
+    validator.size(viewport.visibleArea, `${path}.visibleArea`);
+  }
+}
+
+/**
+ * Validate the metadata block of a diagram
+ */
+function validateMetadata(validator: Validator, metadata: unknown, path: string): void {
+  if (!validator.record(metadata, path)) {
+    return;
+  }
+
+  validator.number(metadata.createdAt, `${path}.createdAt`);
+  validator.number(metadata.updatedAt, `${path}.updatedAt`);
+  validator.string(metadata.createdBy, `${path}.createdBy`, { optional: true });
+  validator.string(metadata.lastModifiedBy, `${path}.lastModifiedBy`, { optional: true });
+  validator.string(metadata.thumbnail, `${path}.thumbnail`, { optional: true });
+  validator.number(metadata.fileSize, `${path}.fileSize`, { optional: true, min: 0 });
+
+  if (metadata.tags !== undefined) {
+    if (!Array.isArray(metadata.tags)) {
+      validator.report(`${path}.tags`, `expected an array, got ${describe(metadata.tags)}`);
+    } else {
+      metadata.tags.forEach((tag, index) => validator.string(tag, `${path}.tags[${index}]`));
+    }
+  }
+}
+
+/**
+ * Validate the fields shared by every element
+ */
+function validateBaseElement(validator: Validator, element: UnknownRecord, path: string): void {
+  validator.string(element.id, `${path}.id`, { nonEmpty: true });
+  validator.point(element.position, `${path}.position`);
+  validator.size(element.size, `${path}.size`);
+  validator.number(element.rotation, `${path}.rotation`, { optional: true });
+  validator.boolean(element.locked, `${path}.locked`, { optional: true });
+  validator.boolean(element.visible, `${path}.visible`, { optional: true });
+
+  validator.number(element.zIndex, `${path}.zIndex`);
+  validator.number(element.createdAt, `${path}.createdAt`);
+  validator.number(element.updatedAt, `${path}.updatedAt`);
+
+  if (element.groupIds !== undefined) {
+    if (!Array.isArray(element.groupIds)) {
+      validator.report(`${path}.groupIds`, `expected an array, got ${describe(element.groupIds)}`);
+    } else {
+      element.groupIds.forEach((groupId, index) =>
+        validator.string(groupId, `${path}.groupIds[${index}]`, { nonEmpty: true })
+      );
+    }
+  }
+}
+
+/**
+ * Validate the StickyNote specific fields
+ */
+function validateStickyNote(validator: Validator, element: UnknownRecord, path: string): void {
+  const { content, style, connectionPoints } = element;
+
+  if (validator.record(content, `${path}.content`)) {
+    validator.string(content.text, `${path}.content.text`);
+    validator.number(content.fontSize, `${path}.content.fontSize`, { min: 1 });
+    validator.string(content.fontFamily, `${path}.content.fontFamily`, { nonEmpty: true });
+    validator.oneOf(content.textAlign, TEXT_ALIGNMENTS, `${path}.content.textAlign`);
+    validator.oneOf(content.verticalAlign, VERTICAL_ALIGNMENTS, `${path}.content.verticalAlign`);
+  }
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.backgroundColor, `${path}.style.backgroundColor`, { nonEmpty: true });
+    validator.string(style.textColor, `${path}.style.textColor`, { nonEmpty: true });
+    validator.string(style.borderColor, `${path}.style.borderColor`, { optional: true });
+    validator.number(style.borderWidth, `${path}.style.borderWidth`, { optional: true, min: 0 });
+    validator.oneOf(style.borderStyle, STROKE_STYLES, `${path}.style.borderStyle`, {
+      optional: true,
+    });
+    validator.number(style.borderRadius, `${path}.style.borderRadius`, { optional: true, min: 0 });
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+    validator.boolean(style.shadow, `${path}.style.shadow`, { optional: true });
+  }
+
+  validateConnectionPoints(validator, element, connectionPoints, path);
+}
+
+/**
+ * Validate the connection points of a note or shape
+ */
+function validateConnectionPoints(
+  validator: Validator,
+  element: UnknownRecord,
+  connectionPoints: unknown,
+  path: string
+): void {
+  if (!Array.isArray(connectionPoints)) {
+    validator.report(
+      `${path}.connectionPoints`,
+      `expected an array, got ${describe(connectionPoints)}`
+    );
+    return;
+  }
+
+  connectionPoints.forEach((connectionPoint, index) => {
+    const pointPath = `${path}.connectionPoints[${index}]`;
+    if (!validator.record(connectionPoint, pointPath)) {
+      return;
+    }
+
+    validator.string(connectionPoint.id, `${pointPath}.id`, { nonEmpty: true });
+    validator.point(connectionPoint.position, `${pointPath}.position`);
+    validator.oneOf(connectionPoint.type, CONNECTION_POINT_TYPES, `${pointPath}.type`);
+
+    if (connectionPoint.elementId !== element.id) {
+      validator.report(
+        `${pointPath}.elementId`,
+        `must reference its own element "${String(element.id)}", got ${JSON.stringify(connectionPoint.elementId)}`
+      );
+    }
+  });
+}
+
+/**
+ * Validate the Shape specific fields
+ */
+function validateShape(validator: Validator, element: UnknownRecord, path: string): void {
+  const { shape, content, style, connectionPoints } = element;
+
+  validator.oneOf(shape, SHAPE_KINDS, `${path}.shape`);
+
+  if (validator.record(content, `${path}.content`)) {
+    validator.string(content.text, `${path}.content.text`);
+    validator.number(content.fontSize, `${path}.content.fontSize`, { min: 1 });
+    validator.string(content.fontFamily, `${path}.content.fontFamily`, { nonEmpty: true });
+    validator.oneOf(content.textAlign, TEXT_ALIGNMENTS, `${path}.content.textAlign`);
+    validator.oneOf(content.verticalAlign, VERTICAL_ALIGNMENTS, `${path}.content.verticalAlign`);
+  }
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.fillColor, `${path}.style.fillColor`, { nonEmpty: true });
+    validator.string(style.strokeColor, `${path}.style.strokeColor`, { nonEmpty: true });
+    validator.number(style.strokeWidth, `${path}.style.strokeWidth`, { min: 0 });
+    validator.oneOf(style.strokeStyle, STROKE_STYLES, `${path}.style.strokeStyle`, {
+      optional: true,
+    });
+    validator.string(style.textColor, `${path}.style.textColor`, { nonEmpty: true });
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+  }
+
+  validateConnectionPoints(validator, element, connectionPoints, path);
+}
+
+/**
+ * Validate the TextElement specific fields
+ */
+function validateText(validator: Validator, element: UnknownRecord, path: string): void {
+  const { content, style } = element;
+
+  if (validator.record(content, `${path}.content`)) {
+    validator.string(content.text, `${path}.content.text`);
+    validator.number(content.fontSize, `${path}.content.fontSize`, { min: 1 });
+    validator.string(content.fontFamily, `${path}.content.fontFamily`, { nonEmpty: true });
+    validator.oneOf(content.fontWeight, FONT_WEIGHTS, `${path}.content.fontWeight`, {
+      optional: true,
+    });
+    validator.oneOf(content.textAlign, TEXT_ALIGNMENTS, `${path}.content.textAlign`);
+  }
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.textColor, `${path}.style.textColor`, { nonEmpty: true });
+    validator.string(style.backgroundColor, `${path}.style.backgroundColor`, { optional: true });
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+  }
+}
+
+/**
+ * Validate the Frame specific fields (child references are checked separately)
+ */
+function validateFrame(validator: Validator, element: UnknownRecord, path: string): void {
+  const { title, childIds, style } = element;
+
+  validator.string(title, `${path}.title`);
+
+  if (!Array.isArray(childIds)) {
+    validator.report(`${path}.childIds`, `expected an array, got ${describe(childIds)}`);
+  } else {
+    childIds.forEach((childId, index) =>
+      validator.string(childId, `${path}.childIds[${index}]`, { nonEmpty: true })
+    );
+  }
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.backgroundColor, `${path}.style.backgroundColor`, { nonEmpty: true });
+    validator.string(style.borderColor, `${path}.style.borderColor`, { nonEmpty: true });
+    validator.number(style.borderWidth, `${path}.style.borderWidth`, { min: 0 });
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+  }
+}
+
+/**
+ * Validate the FreehandStroke specific fields
+ */
+function validateFreehand(validator: Validator, element: UnknownRecord, path: string): void {
+  const { points, style } = element;
+
+  if (!Array.isArray(points)) {
+    validator.report(`${path}.points`, `expected an array, got ${describe(points)}`);
+  } else {
+    points.forEach((point, index) => validator.point(point, `${path}.points[${index}]`));
+  }
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.strokeColor, `${path}.style.strokeColor`, { nonEmpty: true });
+    validator.number(style.strokeWidth, `${path}.style.strokeWidth`, { min: 0 });
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+  }
+}
+
+/**
+ * Validate an arrow style block
+ */
+function validateArrow(validator: Validator, arrow: unknown, path: string): void {
+  if (arrow === undefined || !validator.record(arrow, path)) {
+    return;
+  }
+
+  validator.oneOf(arrow.type, ARROW_TYPES, `${path}.type`);
+  validator.number(arrow.size, `${path}.size`, { min: 0 });
+  validator.boolean(arrow.filled, `${path}.filled`);
+}
+
+/**
+ * Validate the Connector specific fields (endpoint references are checked separately)
+ */
+function validateConnector(validator: Validator, element: UnknownRecord, path: string): void {
+  const { startElement, endElement, points, routing, style, label } = element;
+
+  for (const [endpoint, endpointPath] of [
+    [startElement, `${path}.startElement`],
+    [endElement, `${path}.endElement`],
+  ] as const) {
+    if (validator.record(endpoint, endpointPath)) {
+      validator.string(endpoint.elementId, `${endpointPath}.elementId`, { nonEmpty: true });
+      validator.string(endpoint.connectionPointId, `${endpointPath}.connectionPointId`);
+      validator.point(endpoint.position, `${endpointPath}.position`);
+    }
+  }
+
+  if (!Array.isArray(points)) {
+    validator.report(`${path}.points`, `expected an array, got ${describe(points)}`);
+  } else {
+    points.forEach((point, index) => validator.point(point, `${path}.points[${index}]`));
+  }
+
+  validator.oneOf(routing, CONNECTOR_ROUTINGS, `${path}.routing`, { optional: true });
+
+  if (validator.record(style, `${path}.style`)) {
+    validator.string(style.strokeColor, `${path}.style.strokeColor`, { nonEmpty: true });
+    validator.number(style.strokeWidth, `${path}.style.strokeWidth`, { min: 0 });
+    validator.oneOf(style.strokeStyle, STROKE_STYLES, `${path}.style.strokeStyle`);
+    validator.number(style.opacity, `${path}.style.opacity`, { optional: true, min: 0, max: 1 });
+    validator.number(style.cornerRadius, `${path}.style.cornerRadius`, { optional: true, min: 0 });
+    validateArrow(validator, style.arrowStart, `${path}.style.arrowStart`);
+    validateArrow(validator, style.arrowEnd, `${path}.style.arrowEnd`);
+  }
+
+  if (label !== undefined && validator.record(label, `${path}.label`)) {
+    validator.string(label.text, `${path}.label.text`);
+    validator.number(label.offset, `${path}.label.offset`, { min: 0, max: 1 });
+    validator.number(label.fontSize, `${path}.label.fontSize`, { min: 1 });
+    validator.string(label.textColor, `${path}.label.textColor`, { nonEmpty: true });
+    validator.string(label.backgroundColor, `${path}.label.backgroundColor`, { optional: true });
+  }
+}
+
+/**
+ * Check that connector endpoints point at existing, connectable elements
+ */
+function validateConnectorReferences(
+  validator: Validator,
+  connector: UnknownRecord,
+  path: string,
+  elementsById: Map<unknown, UnknownRecord>
+): void {
+  for (const key of ['startElement', 'endElement'] as const) {
+    const endpoint = connector[key];
+    if (!isRecord(endpoint) || typeof endpoint.elementId !== 'string') {
+      continue;
+    }
+
+    const endpointPath = `${path}.${key}`;
+    const target = elementsById.get(endpoint.elementId);
+
+    if (!target) {
+      validator.report(
+        `${endpointPath}.elementId`,
+        `references missing element "${endpoint.elementId}"`
+      );
+      continue;
+    }
+
+    if (!CONNECTABLE_TYPES.includes(target.type)) {
+      validator.report(
+        `${endpointPath}.elementId`,
+        `references ${String(target.type)} "${endpoint.elementId}", connectors can only attach to notes and shapes`
+      );
+      continue;
+    }
+
+    const connectionPoints = Array.isArray(target.connectionPoints) ? target.connectionPoints : [];
+    if (
+      connectionPoints.length > 0 &&
+      !connectionPoints.some((point) => isRecord(point) && point.id === endpoint.connectionPointId)
+    ) {
+      validator.report(
+        `${endpointPath}.connectionPointId`,
+        `references missing connection point "${String(endpoint.connectionPointId)}" on element "${endpoint.elementId}"`
+      );
+    }
+  }
+}
+
+/**
+ * Check that frame children exist and are not connectors or the frame itself
+ */
+function validateFrameReferences(
+  validator: Validator,
+  frame: UnknownRecord,
+  path: string,
+  elementsById: Map<unknown, UnknownRecord>
+): void {
+  if (!Array.isArray(frame.childIds)) {
+    return;
+  }
+
+  frame.childIds.forEach((childId, index) => {
+    if (typeof childId !== 'string') {
+      return;
+    }
+
+    const childPath = `${path}.childIds[${index}]`;
+    const child = elementsById.get(childId);
+    if (!child) {
+      validator.report(childPath, `references missing element "${childId}"`);
+    } else if (childId === frame.id) {
+      validator.report(childPath, 'a frame cannot contain itself');
+    } else if (child.type === ElementType.CONNECTOR) {
+      validator.report(childPath, `references connector "${childId}", frames hold elements only`);
+    }
+  });
+}
+
+/**
+ * Validate the elements array of a diagram
+ */
+function validateElements(validator: Validator, elements: unknown, path: string): void {
+  if (!Array.isArray(elements)) {
+    validator.report(path, `expected an array, got ${describe(elements)}`);
+    return;
+  }
+
+  const elementsById = new Map<unknown, UnknownRecord>();
+  const elementTypes = Object.values(ElementType) as string[];
+
+  elements.forEach((element, index) => {
+    const elementPath = `${path}[${index}]`;
+    if (!validator.record(element, elementPath)) {
+      return;
+    }
+
+    const elementId = typeof element.id === 'string' ? element.id : undefined;
+
+    validator.forElement(elementId, () => {
+      if (elementId !== undefined && elementsById.has(elementId)) {
+        validator.report(`${elementPath}.id`, `duplicate element ID "${elementId}"`);
+      }
+      elementsById.set(element.id, element);
+
+      validateBaseElement(validator, element, elementPath);
+
+      switch (element.type) {
+        case ElementType.STICKY_NOTE:
+          validateStickyNote(validator, element, elementPath);
+          break;
+        case ElementType.CONNECTOR:
+          validateConnector(validator, element, elementPath);
+          break;
+        case ElementType.SHAPE:
+          validateShape(validator, element, elementPath);
+          break;
+        case ElementType.TEXT:
+          validateText(validator, element, elementPath);
+          break;
+        case ElementType.FRAME:
+          validateFrame(validator, element, elementPath);
+          break;
+        case ElementType.FREEHAND:
+          validateFreehand(validator, element, elementPath);
+          break;
+        default:
+          validator.oneOf(element.type, elementTypes, `${elementPath}.type`);
+      }
+    });
+  });
+
+  // References are resolved once every element ID is known
+  elements.forEach((element, index) => {
+    if (!isRecord(element)) {
+      return;
+    }
+
+    const elementId = typeof element.id === 'string' ? element.id : undefined;
+    if (element.type === ElementType.CONNECTOR) {
+      validator.forElement(elementId, () =>
+        validateConnectorReferences(validator, element, `${path}[${index}]`, elementsById)
+      );
+    } else if (element.type === ElementType.FRAME) {
+      validator.forElement(elementId, () =>
+        validateFrameReferences(validator, element, `${path}[${index}]`, elementsById)
+      );
+    }
+  });
+}
+
+/**
+ * Walk a diagram document, reporting into the validator
+ */
+function validateDiagramInto(validator: Validator, diagram: unknown, path: string): void {
+  if (!validator.record(diagram, path)) {
+    return;
+  }
+
+  validator.string(diagram.id, `${path}.id`, { nonEmpty: true });
+  validator.string(diagram.name, `${path}.name`);
+  validator.string(diagram.description, `${path}.description`, { optional: true });
+  validator.number(diagram.version, `${path}.version`, { min: 0 });
+  validateViewport(validator, diagram.viewport, `${path}.viewport`);
+  validateMetadata(validator, diagram.metadata, `${path}.metadata`);
+  validateElements(validator, diagram.elements, `${path}.elements`);
+}
+
+/**
+ * Validate a diagram document
+ * @param diagram The value to validate
+ * @param path JSON path of the diagram within its container
+ */
+export function validateDiagram(diagram: unknown, path = '$'): ValidationResult {
+  const validator = new Validator();
+  validateDiagramInto(validator, diagram, path);
+  return { valid: validator.issues.length === 0, issues: validator.issues };
+}
+
+/**
+ * Validate a list of elements outside a diagram, e.g. elements read from the clipboard
+ * References between the elements are checked as in a diagram, so the list has to be
+ * self-contained.
+ */
+export function validateElementList(elements: unknown, path = '$'): ValidationResult {
+  const validator = new Validator();
+  validateElements(validator, elements, path);
+  return { valid: validator.issues.length === 0, issues: validator.issues };
+}
+
+/**
+ * Validate a DiagramFile envelope and the diagram inside it
+ */
+export function validateDiagramFile(file: unknown): ValidationResult {
+  const validator = new Validator();
+
+  if (validator.record(file, '$')) {
+    validator.oneOf(file.version, Object.values(FileFormatVersion), '$.version');
+    validator.number(file.exportedAt, '$.exportedAt');
+    validator.string(file.exportedBy, '$.exportedBy', { optional: true });
+    validateDiagramInto(validator, file.diagram, '$.diagram');
+  }
+
+  return { valid: validator.issues.length === 0, issues: validator.issues };
+}
+
+/**
+ * Format an issue as a single line, e.g. for error messages
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const element = issue.elementId !== undefined ? ` (element "${issue.elementId}")` : '';
+  return `${issue.path}${element}: ${issue.message}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Stacking order commands
+ * A selection is moved as one block and keeps its internal order. Groups that are not
+ * selected are stepped over as a whole, and a selection inside a group is reordered
+ * within that group, so a reorder never splits a group.
+ */
+
+import { findIndex, findLastIndex } from 'lodash-es';
+
+import type { ID } from '@/types/common';
+import type { DiagramElement } from '@/types/elements';
+
+import { getOuterGroupId } from './groups';
+
+/** Where a selection moves in the stacking order */
+export type ZOrderCommand = 'forward' | 'backward' | 'front' | 'back';
+
+/**
+ * Innermost group that holds the whole selection and other elements too
+ */
+function getSelectionGroupId(ordered: DiagramElement[], elementIds: Set<ID>): ID | null {
+  const selected = ordered.filter((element) => elementIds.has(element.id));
+  const [first] = selected;
+
+  return (
+    first?.groupIds?.find(
+      (groupId) =>
+        selected.every((element) => element.groupIds?.includes(groupId)) &&
+        ordered.some(
+          (element) => !elementIds.has(element.id) && element.groupIds?.includes(groupId)
+        )
+    ) ?? null
+  );
+}
+
+/**
+ * Index range of the element at an index, widened to the whole of its outermost group
+ * below withinGroupId
+ */
+function getUnitRange(
+  ordered: DiagramElement[],
+  index: number,
+  withinGroupId: ID | null
+): [number, number] {
+  const element = ordered[index];
+  const groupId = element && getOuterGroupId(element, withinGroupId);
+  if (!groupId) {
+    return [index, index];
+  }
+
+  const isMember = (other: DiagramElement) => other.groupIds?.includes(groupId) ?? false;
+  return [findIndex(ordered, isMember), findLastIndex(ordered, isMember)];
+}
+
+/**
+ * Drawing order of a set of elements after moving some of them as a block
+ */
+function moveBlock(
+  ordered: DiagramElement[],
+  elementIds: Set<ID>,
+  command: ZOrderCommand,
+  withinGroupId: ID | null
+): DiagramElement[] {
+  const isSelected = (element: DiagramElement) => elementIds.has(element.id);
+  const selected = ordered.filter(isSelected);
+  const others = ordered.filter((element) => !isSelected(element));
+  if (selected.length === 0) {
+    return ordered;
+  }
+
+  // Number of unselected elements to keep below the block
+  let below: number;
+  switch (command) {
+    case 'front':
+      below = others.length;
+      break;
+    case 'back':
+      below = 0;
+      break;
+    case 'forward': {
+      const next = findIndex(ordered, (el) => !isSelected(el), findLastIndex(ordered, isSelected));
+      const [, unitEnd] =
+        next < 0 ? [0, ordered.length - 1] : getUnitRange(ordered, next, withinGroupId);
+      below = ordered.slice(0, unitEnd + 1).filter((el) => !isSelected(el)).length;
+      break;
+    }
+    case 'backward': {
+      const previous = findLastIndex(
+        ordered,
+        (el) => !isSelected(el),
+        findIndex(ordered, isSelected)
+      );
+      const [unitStart] = previous < 0 ? [0] : getUnitRange(ordered, previous, withinGroupId);
+      below = ordered.slice(0, unitStart).filter((el) => !isSelected(el)).length;
+      break;
+    }
+  }
+
+  return [...others.slice(0, below), ...selected, ...others.slice(below)];
+}
+
+/**
+ * Drawing order after a stacking command
+ * @param ordered Every element of the diagram, bottommost first
+ * @param elementIds Elements to move
+ */
+export function reorderElements(
+  ordered: DiagramElement[],
+  elementIds: Set<ID>,
+  command: ZOrderCommand
+): DiagramElement[] {
+  const groupId = getSelectionGroupId(ordered, elementIds);
+  if (!groupId) {
+    return moveBlock(ordered, elementIds, command, null);
+  }
+
+  // Members of the group trade places among themselves; everything else stays put
+  const isMember = (element: DiagramElement) => element.groupIds?.includes(groupId) ?? false;
+  const members = moveBlock(ordered.filter(isMember), elementIds, command, groupId);
+  let memberIndex = 0;
+  return ordered.map((element) =>
+    isMember(element) ? (members[memberIndex++] ?? element) : element
+  );
+}
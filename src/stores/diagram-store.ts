@@ -6,6 +6,7 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { v4 as uuidv4 } from 'uuid';
+import { isEqual } from 'lodash-es';
 
 import {
   type ID,
@@ -13,30 +14,137 @@ import {
   type LoadingState,
   type Diagram,
   type DiagramState,
-  type DiagramSnapshot,
+  type DiagramOperation,
+  type HistoryEntry,
   type DiagramInfo,
   type DiagramElement,
   type CreateElementParams,
+  type ConnectionPoint,
+  type ConnectionTarget,
+  type ElementTransform,
+  type Connector,
+  type ConnectorRouting,
   type Viewport,
   type Point,
+  type Rectangle,
 } from '@/types';
 import { LoadingState as LoadingStates } from '@/types/common';
 import { ElementType } from '@/types/elements';
+import {
+  applyOperation,
+  cloneElements,
+  coalesceOperations,
+  createAttachedConnectorUpdates,
+  createDeleteOperations,
+  createFrameChildRemovals,
+  createFrameMembershipUpdates,
+  createGroupRemovals,
+  createTransformOperations,
+  createUpdateOperation,
+  getAffectedElementIds,
+  getCopiedElements,
+  getResizeChanges,
+  getRestackedZIndices,
+  invertOperation,
+  syncConnectorEndpoints,
+  withFrameChildren,
+} from '@/lib/diagram-operations';
+import {
+  type Alignment,
+  type DistributeDirection,
+  getAlignTransforms,
+  getDistributeTransforms,
+  getMatchSizeTransforms,
+  type SizeDimension,
+} from '@/lib/alignment';
+import { createConnector } from '@/lib/element-factory';
+import {
+  addGroupId,
+  createGroupIdMap,
+  getDissolvedGroupIds,
+  getOuterGroupId,
+  isInGroup,
+  stackTogether,
+  withGroupMembers,
+} from '@/lib/groups';
+import {
+  elementIndex,
+  queryElementIndex,
+  rebuildElementIndex,
+  syncElementIndex,
+} from '@/lib/canvas/element-index';
+import {
+  acceptsConnectorEnd,
+  type ConnectorEnd,
+  createConnectionPoints,
+  isConnectable,
+  withConnectionPoints,
+} from '@/lib/canvas/connection-points';
+import {
+  getConnectionPointPosition,
+  getElementCorners,
+  getPointsBounds,
+  getVisibleArea,
+} from '@/lib/canvas/geometry';
+import { DEFAULT_LABEL_OFFSET, DEFAULT_LABEL_STYLE } from '@/lib/canvas/labels';
+import { reorderElements, type ZOrderCommand } from '@/lib/z-order';
+import { sortByZIndex } from '@/lib/canvas/renderer';
+import { DEFAULT_CORNER_RADIUS, getRoutingArea, routeConnector } from '@/lib/canvas/routing';
+
+/** Options of edits that locked elements are protected from */
+export interface LockOptions {
+  /** Edit locked elements as well */
+  ignoreLock?: boolean;
+}
 
 /** Actions available on the diagram store */
 export interface DiagramActions {
   // Diagram management
   createNewDiagram: (name?: string, description?: string) => void;
   loadDiagram: (diagram: Diagram) => void;
+  restoreSession: (
+    diagram: Diagram,
+    history?: Pick<DiagramState['history'], 'past' | 'future'>
+  ) => void;
   setDiagramName: (name: string) => void;
   setDiagramDescription: (description: string) => void;
 
   // Element operations
   addElement: (element: CreateElementParams<DiagramElement>) => ID;
-  updateElement: (elementId: ID, changes: Partial<DiagramElement>) => void;
-  deleteElement: (elementId: ID) => void;
-  deleteElements: (elementIds: ID[]) => void;
-  moveElements: (elementIds: ID[], delta: Point) => void;
+  updateElement: (elementId: ID, changes: Partial<DiagramElement>, options?: LockOptions) => void;
+  deleteElement: (elementId: ID, options?: LockOptions) => void;
+  deleteElements: (elementIds: ID[], options?: LockOptions) => void;
+  moveElements: (elementIds: ID[], delta: Point, options?: LockOptions) => void;
+  resizeElements: (transforms: Record<ID, ElementTransform>, options?: LockOptions) => void;
+  rotateElements: (transforms: Record<ID, ElementTransform>, options?: LockOptions) => void;
+  setConnectorRouting: (connectorId: ID, routing: ConnectorRouting) => void;
+  rerouteConnectors: (connectorIds?: ID[]) => void;
+  updateFrameMembership: (elementIds: ID[]) => void;
+  connectElements: (start: ConnectionTarget, end: ConnectionTarget) => ID | null;
+  setConnectionPointType: (
+    elementId: ID,
+    type: ConnectionPoint['type'],
+    connectionPointIds?: ID[]
+  ) => void;
+  setConnectorLabel: (
+    connectorId: ID,
+    text: string,
+    offset?: number,
+    options?: LockOptions
+  ) => void;
+  groupElements: (elementIds: ID[], withinGroupId?: ID | null) => ID | null;
+  ungroupElements: (elementIds: ID[], withinGroupId?: ID | null) => void;
+  bringForward: (elementIds: ID[]) => void;
+  sendBackward: (elementIds: ID[]) => void;
+  bringToFront: (elementIds: ID[]) => void;
+  sendToBack: (elementIds: ID[]) => void;
+  lockElements: (elementIds: ID[]) => void;
+  unlockElements: (elementIds: ID[]) => void;
+  hideElements: (elementIds: ID[]) => void;
+  showElements: (elementIds?: ID[]) => void;
+  alignElements: (elementIds: ID[], alignment: Alignment) => void;
+  distributeElements: (elementIds: ID[], direction: DistributeDirection) => void;
+  matchElementSizes: (elementIds: ID[], dimension: SizeDimension) => void;
   duplicateElement: (elementId: ID) => ID | null;
   duplicateElements: (elementIds: ID[]) => ID[];
 
@@ -48,11 +156,18 @@ export interface DiagramActions {
   zoomToFit: () => void;
   panTo: (position: Point) => void;
 
+  // Spatial queries
+  getElementsInArea: (area: Rectangle) => DiagramElement[];
+  getVisibleElements: () => DiagramElement[];
+
   // Undo/Redo operations
   undo: () => void;
   redo: () => void;
   clearHistory: () => void;
-  pushSnapshot: (description?: string) => void;
+  executeOperation: (operation: DiagramOperation, description?: string) => void;
+  beginTransaction: (description?: string) => ID;
+  commitTransaction: () => void;
+  cancelTransaction: () => void;
 
   // Loading and error states
   setLoading: (loading: LoadingState) => void;
@@ -87,13 +202,6 @@ const DEFAULT_VIEWPORT: Viewport = {
   visibleArea: { x: 0, y: 0, width: 800, height: 600 },
 };
 
-/** Default diagram snapshot */
-const DEFAULT_SNAPSHOT: DiagramSnapshot = {
-  elements: [],
-  viewport: DEFAULT_VIEWPORT,
-  timestamp: Date.now(),
-};
-
 /** Initial state for the diagram store */
 const initialState: DiagramState = {
   currentDiagram: null,
@@ -102,13 +210,227 @@ const initialState: DiagramState = {
   isDirty: false,
   history: {
     past: [],
-    present: DEFAULT_SNAPSHOT,
     future: [],
     maxHistorySize: 50,
+    transaction: null,
   },
   recentDiagrams: [],
 };
 
+/** Human readable names of element types for history descriptions */
+const ELEMENT_TYPE_LABELS: Record<ElementType, string> = {
+  [ElementType.STICKY_NOTE]: 'sticky note',
+  [ElementType.CONNECTOR]: 'connector',
+  [ElementType.SHAPE]: 'shape',
+  [ElementType.TEXT]: 'text',
+  [ElementType.FRAME]: 'frame',
+  [ElementType.FREEHAND]: 'freehand stroke',
+};
+
+/**
+ * Update the spatial index after elements of the current diagram changed
+ */
+function syncIndexedElements(diagram: Diagram | null, elementIds: ID[]) {
+  if (diagram) {
+    syncElementIndex(diagram.elements, elementIds);
+  }
+}
+
+/**
+ * Describe a number of elements, e.g. "sticky note" or "3 elements"
+ */
+function describeElements(elements: DiagramElement[]): string {
+  const [first] = elements;
+  if (elements.length === 1 && first) {
+    return ELEMENT_TYPE_LABELS[first.type];
+  }
+  return `${elements.length} elements`;
+}
+
+/**
+ * Transforms of the elements that are not locked
+ */
+function withoutLocked(
+  elements: DiagramElement[],
+  transforms: Record<ID, ElementTransform>
+): Record<ID, ElementTransform> {
+  const lockedIds = new Set(elements.filter((el) => el.locked).map((el) => el.id));
+  return Object.fromEntries(Object.entries(transforms).filter(([id]) => !lockedIds.has(id)));
+}
+
+/**
+ * Set the locked or visible flag of elements in one history entry
+ * @param elementIds Elements to change; all elements when omitted
+ */
+function executeFlagChange(
+  store: DiagramStore,
+  elementIds: ID[] | undefined,
+  flag: 'locked' | 'visible',
+  value: boolean,
+  action: 'Lock' | 'Unlock' | 'Hide' | 'Show'
+) {
+  const { currentDiagram, executeOperation } = store;
+  if (!currentDiagram) {
+    return;
+  }
+
+  // Elements without the flag are unlocked and visible
+  const idSet = elementIds && new Set(elementIds);
+  const changed = currentDiagram.elements.filter(
+    (el) =>
+      (!idSet || idSet.has(el.id)) &&
+      (flag === 'locked' ? (el.locked ?? false) : (el.visible ?? true)) !== value
+  );
+  if (changed.length === 0) {
+    return;
+  }
+
+  const description = `${action} ${describeElements(changed)}`;
+  executeOperation(
+    {
+      type: 'batch',
+      operations: changed.map((el) => createUpdateOperation(el, { [flag]: value })),
+      description,
+    },
+    description
+  );
+}
+
+/**
+ * Record new element geometry together with the connectors that follow it
+ */
+function executeTransform(
+  store: DiagramStore,
+  transforms: Record<ID, ElementTransform>,
+  describe: (elements: string) => string,
+  options: LockOptions = {}
+) {
+  const { currentDiagram, executeOperation } = store;
+  if (!currentDiagram) {
+    return;
+  }
+
+  if (!options.ignoreLock) {
+    transforms = withoutLocked(currentDiagram.elements, transforms);
+  }
+
+  const operations = createTransformOperations(currentDiagram.elements, transforms);
+  if (operations.length === 0) {
+    return;
+  }
+
+  const transformed = currentDiagram.elements.filter((el) => el.id in transforms);
+  const description = describe(describeElements(transformed));
+  executeOperation({ type: 'batch', operations, description }, description);
+}
+
+/** History descriptions of stacking commands */
+const Z_ORDER_DESCRIPTIONS: Record<ZOrderCommand, (elements: string) => string> = {
+  forward: (elements) => `Bring ${elements} forward`,
+  backward: (elements) => `Send ${elements} backward`,
+  front: (elements) => `Bring ${elements} to front`,
+  back: (elements) => `Send ${elements} to back`,
+};
+
+/**
+ * Record a new stacking order
+ * Every zIndex is renumbered as needed so that no two elements share one.
+ */
+function executeReorder(store: DiagramStore, elementIds: ID[], command: ZOrderCommand) {
+  const { currentDiagram, executeOperation } = store;
+  if (!currentDiagram) {
+    return;
+  }
+
+  const idSet = new Set(elementIds);
+  const zIndices = getRestackedZIndices(
+    reorderElements(sortByZIndex(currentDiagram.elements), idSet, command)
+  );
+  const operations = currentDiagram.elements.flatMap((el) => {
+    const zIndex = zIndices.get(el.id);
+    return zIndex === undefined ? [] : [createUpdateOperation(el, { zIndex })];
+  });
+  if (operations.length === 0) {
+    return;
+  }
+
+  const reordered = currentDiagram.elements.filter((el) => idSet.has(el.id));
+  const description = Z_ORDER_DESCRIPTIONS[command](describeElements(reordered));
+  executeOperation({ type: 'batch', operations, description }, description);
+}
+
+/** Distance between duplicates and the elements they were copied from */
+const DUPLICATE_OFFSET = 20;
+
+/**
+ * Record copies of a selection above every other element
+ * Frames are copied with their children, and connectors whose ends are both copied are
+ * rewired to the copies. Groups copied as a whole become new groups of the copies; groups
+ * that are only partly copied take the copies in.
+ * @returns New ID of every copied element, bottommost first
+ */
+function executeDuplicate(store: DiagramStore, elementIds: ID[]): Map<ID, ID> {
+  const { currentDiagram, executeOperation } = store;
+  const copied = currentDiagram
+    ? sortByZIndex(getCopiedElements(currentDiagram.elements, elementIds))
+    : [];
+  const idMap = new Map(copied.map((el) => [el.id, uuidv4()] as const));
+  if (!currentDiagram || idMap.size === 0) {
+    return idMap;
+  }
+
+  const { elements } = currentDiagram;
+  const groupIdMap = createGroupIdMap(elements, new Set(idMap.keys()), uuidv4);
+  const delta = { x: DUPLICATE_OFFSET, y: DUPLICATE_OFFSET };
+  const now = Date.now();
+  const maxZIndex = Math.max(0, ...elements.map((el) => el.zIndex || 0));
+
+  const operations = cloneElements(copied, idMap, groupIdMap, delta).map(
+    (element, index): DiagramOperation => ({
+      type: 'add_element',
+      element: { ...element, createdAt: now, updatedAt: now, zIndex: maxZIndex + index + 1 },
+    })
+  );
+  const description = `Duplicate ${describeElements(elements.filter((el) => elementIds.includes(el.id)))}`;
+  executeOperation({ type: 'batch', operations, description }, description);
+
+  return idMap;
+}
+
+/**
+ * Points of a connector routed around the notes near it
+ */
+function getRoutedPoints(connector: Connector): Point[] {
+  return routeConnector(connector, queryElementIndex(getRoutingArea(connector)));
+}
+
+/**
+ * Push an entry onto the undo stack, dropping the oldest entries beyond the limit
+ */
+function pushHistoryEntry(history: DiagramState['history'], entry: HistoryEntry) {
+  history.past.push(entry);
+
+  if (history.past.length > history.maxHistorySize) {
+    history.past.splice(0, history.past.length - history.maxHistorySize);
+  }
+
+  // A new edit invalidates the redo stack
+  history.future = [];
+}
+
+/**
+ * Record a modification of the current diagram
+ */
+function markModified(state: DiagramState, timestamp: number) {
+  if (!state.currentDiagram) {
+    return;
+  }
+
+  state.currentDiagram.metadata.updatedAt = timestamp;
+  state.currentDiagram.version += 1;
+  state.isDirty = true;
+}
+
 /**
  * Create diagram store with Zustand and Immer
  */
@@ -138,293 +460,554 @@ export const useDiagramStore = create<DiagramStore>()(
         state.error = null;
         state.history = {
           past: [],
-          present: {
-            elements: [],
-            viewport: { ...DEFAULT_VIEWPORT },
-            timestamp: now,
-          },
           future: [],
           maxHistorySize: 50,
+          transaction: null,
         };
       });
+
+      rebuildElementIndex(get().currentDiagram?.elements);
     },
 
     loadDiagram: (diagram) => {
       set((state) => {
-        state.currentDiagram = { ...diagram };
+        state.currentDiagram = {
+          ...diagram,
+          elements: syncConnectorEndpoints(withConnectionPoints(diagram.elements)),
+        };
         state.isDirty = false;
         state.error = null;
         state.history = {
           past: [],
-          present: {
-            elements: [...diagram.elements],
-            viewport: { ...diagram.viewport },
-            timestamp: Date.now(),
-          },
           future: [],
           maxHistorySize: 50,
+          transaction: null,
         };
       });
+
+      rebuildElementIndex(get().currentDiagram?.elements);
     },
 
-    setDiagramName: (name) => {
+    restoreSession: (diagram, history) => {
       set((state) => {
-        if (state.currentDiagram) {
-          state.currentDiagram.name = name;
-          state.currentDiagram.metadata.updatedAt = Date.now();
-          state.isDirty = true;
-        }
+        // A restored session holds changes that were never saved
+        state.currentDiagram = {
+          ...diagram,
+          elements: syncConnectorEndpoints(withConnectionPoints(diagram.elements)),
+        };
+        state.isDirty = true;
+        state.error = null;
+        state.history = {
+          past: history ? history.past.slice(-state.history.maxHistorySize) : [],
+          future: history ? history.future.slice(0, state.history.maxHistorySize) : [],
+          maxHistorySize: state.history.maxHistorySize,
+          transaction: null,
+        };
       });
+
+      rebuildElementIndex(get().currentDiagram?.elements);
+    },
+
+    setDiagramName: (name) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram || currentDiagram.name === name) {
+        return;
+      }
+
+      executeOperation(
+        {
+          type: 'update_diagram',
+          changes: { name },
+          previousState: { name: currentDiagram.name },
+        },
+        'Rename diagram'
+      );
     },
 
     setDiagramDescription: (description) => {
-      set((state) => {
-        if (state.currentDiagram) {
-          state.currentDiagram.description = description;
-          state.currentDiagram.metadata.updatedAt = Date.now();
-          state.isDirty = true;
-        }
-      });
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram || currentDiagram.description === description) {
+        return;
+      }
+
+      executeOperation(
+        {
+          type: 'update_diagram',
+          changes: { description },
+          previousState: { description: currentDiagram.description },
+        },
+        'Change diagram description'
+      );
     },
 
     // Element operations
     addElement: (elementParams) => {
       const id = elementParams.id || uuidv4();
+      const { currentDiagram, executeOperation } = get();
+
+      if (!currentDiagram) {
+        return id;
+      }
+
       const now = Date.now();
 
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
-        }
+      // Get the highest z-index
+      const maxZIndex = Math.max(0, ...currentDiagram.elements.map((el) => el.zIndex || 0));
 
-        // Get the highest z-index
-        const maxZIndex = Math.max(0, ...state.currentDiagram.elements.map((el) => el.zIndex || 0));
+      const newElement: DiagramElement = {
+        ...elementParams,
+        id,
+        createdAt: now,
+        updatedAt: now,
+        zIndex: maxZIndex + 1,
+      } as DiagramElement;
 
-        const newElement: DiagramElement = {
-          ...elementParams,
-          id,
-          createdAt: now,
-          updatedAt: now,
-          zIndex: maxZIndex + 1,
-        } as DiagramElement;
-
-        state.currentDiagram.elements.push(newElement);
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+      // Notes and shapes created without connection points get one on each edge
+      if (isConnectable(newElement) && newElement.connectionPoints.length === 0) {
+        newElement.connectionPoints = createConnectionPoints(id, newElement.size);
+      }
 
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
-      });
+      executeOperation(
+        { type: 'add_element', element: newElement },
+        `Add ${ELEMENT_TYPE_LABELS[newElement.type]}`
+      );
 
       return id;
     },
 
-    updateElement: (elementId, changes) => {
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
-        }
+    updateElement: (elementId, changes, options = {}) => {
+      const { currentDiagram, executeOperation } = get();
+      const element = currentDiagram?.elements.find((el) => el.id === elementId);
 
-        const elementIndex = state.currentDiagram.elements.findIndex((el) => el.id === elementId);
-        if (elementIndex === -1) {
-          return;
-        }
-
-        const now = Date.now();
-        const element = state.currentDiagram.elements[elementIndex];
+      if (!currentDiagram || !element || (element.locked && !options.ignoreLock)) {
+        return;
+      }
 
-        if (element) {
-          // Apply changes
-          Object.assign(element, changes, { updatedAt: now });
-        }
+      // Connection points and stroke points follow a new size unless they are replaced too
+      if (changes.size) {
+        changes = {
+          ...getResizeChanges(element, changes.size),
+          ...changes,
+        } as Partial<DiagramElement>;
+      }
 
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+      const description = `Update ${ELEMENT_TYPE_LABELS[element.type]}`;
+      const update = createUpdateOperation(element, changes);
+      const updated = { ...element, ...changes } as DiagramElement;
+      const connectorUpdates = createAttachedConnectorUpdates(
+        currentDiagram.elements,
+        new Map([[elementId, updated]])
+      );
 
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
-      });
+      // Attached connectors follow in the same history entry
+      executeOperation(
+        connectorUpdates.length > 0
+          ? { type: 'batch', operations: [update, ...connectorUpdates], description }
+          : update,
+        description
+      );
     },
 
-    deleteElement: (elementId) => {
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
-        }
-
-        const elementIndex = state.currentDiagram.elements.findIndex((el) => el.id === elementId);
-        if (elementIndex === -1) {
-          return;
-        }
+    deleteElement: (elementId, options) => {
+      get().deleteElements([elementId], options);
+    },
 
-        // Remove the element
-        state.currentDiagram.elements.splice(elementIndex, 1);
+    deleteElements: (elementIds, options = {}) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram) {
+        return;
+      }
 
-        // Remove any connectors that reference this element
-        state.currentDiagram.elements = state.currentDiagram.elements.filter((el) => {
-          if (el.type === ElementType.CONNECTOR) {
-            return el.startElement.elementId !== elementId && el.endElement.elementId !== elementId;
+      // Frames take the elements in them along, except locked ones
+      const elementIdSet = withFrameChildren(currentDiagram.elements, elementIds);
+      if (!options.ignoreLock) {
+        currentDiagram.elements.forEach((el) => {
+          if (el.locked) {
+            elementIdSet.delete(el.id);
           }
-          return true;
         });
+      }
 
-        const now = Date.now();
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
-
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
+      // Remove any connectors that reference the deleted elements as well, even locked
+      // ones, since a connector cannot exist without its endpoints
+      currentDiagram.elements.forEach((el) => {
+        if (
+          el.type === ElementType.CONNECTOR &&
+          (elementIdSet.has(el.startElement.elementId) || elementIdSet.has(el.endElement.elementId))
+        ) {
+          elementIdSet.add(el.id);
+        }
       });
+
+      // Groups left with a single member are dissolved
+      const dissolvedGroupIds = getDissolvedGroupIds(currentDiagram.elements, elementIdSet);
+      const deletions = createDeleteOperations(currentDiagram.elements, elementIdSet);
+      const operations = [
+        ...createFrameChildRemovals(currentDiagram.elements, elementIdSet),
+        ...createGroupRemovals(currentDiagram.elements, dissolvedGroupIds, elementIdSet),
+        ...deletions,
+      ];
+      const [firstOperation] = operations;
+
+      if (!firstOperation) {
+        return;
+      }
+
+      executeOperation(
+        operations.length === 1 ? firstOperation : { type: 'batch', operations },
+        `Delete ${describeElements(deletions.map((operation) => operation.element))}`
+      );
     },
 
-    deleteElements: (elementIds) => {
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
-        }
+    moveElements: (elementIds, delta, options = {}) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram || elementIds.length === 0 || (delta.x === 0 && delta.y === 0)) {
+        return;
+      }
 
-        const elementIdSet = new Set(elementIds);
+      // Frames take the elements in them along, except locked ones
+      const elementIdSet = withFrameChildren(currentDiagram.elements, elementIds);
+      const movedElements = currentDiagram.elements.filter(
+        (el) => elementIdSet.has(el.id) && (!el.locked || options.ignoreLock)
+      );
+      if (movedElements.length === 0) {
+        return;
+      }
 
-        // Remove elements and any connectors that reference them
-        state.currentDiagram.elements = state.currentDiagram.elements.filter((el) => {
-          if (elementIdSet.has(el.id)) {
-            return false; // Remove the element itself
-          }
-          if (el.type === ElementType.CONNECTOR) {
-            return (
-              !elementIdSet.has(el.startElement.elementId) &&
-              !elementIdSet.has(el.endElement.elementId)
-            );
-          }
-          return true;
-        });
+      const description = `Move ${describeElements(
+        movedElements.filter((el) => elementIds.includes(el.id))
+      )}`;
 
-        const now = Date.now();
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+      const move: DiagramOperation = {
+        type: 'move_elements',
+        elementIds: movedElements.map((el) => el.id),
+        delta: { x: delta.x, y: delta.y },
+      };
+      const connectorUpdates = createAttachedConnectorUpdates(
+        currentDiagram.elements,
+        new Map(
+          movedElements.map((el) => [
+            el.id,
+            { ...el, position: { x: el.position.x + delta.x, y: el.position.y + delta.y } },
+          ])
+        )
+      );
 
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
+      // Attached connectors follow in the same history entry
+      executeOperation(
+        connectorUpdates.length > 0
+          ? { type: 'batch', operations: [move, ...connectorUpdates], description }
+          : move,
+        description
+      );
+    },
+
+    resizeElements: (transforms, options) => {
+      executeTransform(get(), transforms, (elements) => `Resize ${elements}`, options);
+    },
+
+    rotateElements: (transforms, options) => {
+      executeTransform(get(), transforms, (elements) => `Rotate ${elements}`, options);
+    },
+
+    setConnectorRouting: (connectorId, routing) => {
+      const { currentDiagram, updateElement } = get();
+      const connector = currentDiagram?.elements.find((el) => el.id === connectorId);
+      if (connector?.type !== ElementType.CONNECTOR || connector.routing === routing) {
+        return;
+      }
+
+      const addCornerRadius =
+        routing === 'orthogonal' && connector.style.cornerRadius === undefined;
+      updateElement(connectorId, {
+        routing,
+        points: getRoutedPoints({ ...connector, routing }),
+        ...(addCornerRadius && {
+          style: { ...connector.style, cornerRadius: DEFAULT_CORNER_RADIUS },
+        }),
       });
     },
 
-    moveElements: (elementIds, delta) => {
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
+    rerouteConnectors: (connectorIds) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram) {
+        return;
+      }
+
+      const idSet = connectorIds ? new Set(connectorIds) : null;
+      const operations = currentDiagram.elements.flatMap((el) => {
+        if (el.type !== ElementType.CONNECTOR || !el.routing || (idSet && !idSet.has(el.id))) {
+          return [];
         }
 
-        const elementIdSet = new Set(elementIds);
-        const now = Date.now();
+        const points = getRoutedPoints(el);
+        return isEqual(points, el.points) ? [] : [createUpdateOperation(el, { points })];
+      });
 
-        state.currentDiagram.elements.forEach((element) => {
-          if (elementIdSet.has(element.id)) {
-            element.position.x += delta.x;
-            element.position.y += delta.y;
-            element.updatedAt = now;
-          }
-        });
+      const [firstOperation] = operations;
+      if (!firstOperation) {
+        return;
+      }
 
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+      const description = operations.length === 1 ? 'Reroute connector' : 'Reroute connectors';
+      executeOperation(
+        operations.length === 1 ? firstOperation : { type: 'batch', operations, description },
+        description
+      );
+    },
 
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
-      });
+    updateFrameMembership: (elementIds) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram) {
+        return;
+      }
+
+      const operations = createFrameMembershipUpdates(currentDiagram.elements, elementIds);
+      const [firstOperation] = operations;
+      if (!firstOperation) {
+        return;
+      }
+
+      const description = 'Update frame children';
+      executeOperation(
+        operations.length === 1 ? firstOperation : { type: 'batch', operations, description },
+        description
+      );
     },
 
-    duplicateElement: (elementId) => {
-      const state = get();
-      if (!state.currentDiagram) {
+    connectElements: (start, end) => {
+      const { currentDiagram, addElement } = get();
+      if (!currentDiagram) {
         return null;
       }
 
-      const element = state.currentDiagram.elements.find((el) => el.id === elementId);
-      if (!element) {
+      const resolve = (target: ConnectionTarget, connectorEnd: ConnectorEnd) => {
+        const element = currentDiagram.elements.find((el) => el.id === target.elementId);
+        if (!element || !isConnectable(element)) {
+          return null;
+        }
+        const point = element.connectionPoints.find((cp) => cp.id === target.connectionPointId);
+        return point && acceptsConnectorEnd(point, connectorEnd)
+          ? { ...target, position: getConnectionPointPosition(element, point.position) }
+          : null;
+      };
+
+      const startElement = resolve(start, 'start');
+      const endElement = resolve(end, 'end');
+      if (!startElement || !endElement || isEqual(start, end)) {
         return null;
       }
 
-      const newId = uuidv4();
-      const now = Date.now();
+      return addElement(createConnector(startElement, endElement));
+    },
 
-      const duplicatedElement: DiagramElement = {
-        ...element,
-        id: newId,
-        position: {
-          x: element.position.x + 20,
-          y: element.position.y + 20,
-        },
-        createdAt: now,
-        updatedAt: now,
-        zIndex: element.zIndex + 1,
-      };
+    setConnectionPointType: (elementId, type, connectionPointIds) => {
+      const { currentDiagram, executeOperation } = get();
+      const element = currentDiagram?.elements.find((el) => el.id === elementId);
+      if (!element || !isConnectable(element)) {
+        return;
+      }
 
-      // Remove connections for connectors since we can't duplicate those easily
-      if (duplicatedElement.type === ElementType.STICKY_NOTE) {
-        duplicatedElement.connectionPoints = duplicatedElement.connectionPoints.map((cp) => ({
-          ...cp,
-          id: uuidv4(),
-          elementId: newId,
-        }));
+      const idSet = connectionPointIds ? new Set(connectionPointIds) : null;
+      const connectionPoints = element.connectionPoints.map((cp) =>
+        !idSet || idSet.has(cp.id) ? { ...cp, type } : cp
+      );
+      if (isEqual(connectionPoints, element.connectionPoints)) {
+        return;
       }
 
-      set((state) => {
-        if (!state.currentDiagram) {
-          return;
+      executeOperation(
+        createUpdateOperation(element, { connectionPoints }),
+        'Change connection points'
+      );
+    },
+
+    setConnectorLabel: (connectorId, text, offset, options = {}) => {
+      const { currentDiagram, executeOperation } = get();
+      const connector = currentDiagram?.elements.find((el) => el.id === connectorId);
+      if (connector?.type !== ElementType.CONNECTOR || (connector.locked && !options.ignoreLock)) {
+        return;
+      }
+
+      const { label } = connector;
+      const trimmed = text.trim();
+
+      // Clearing the text removes the label
+      if (!trimmed) {
+        if (label) {
+          executeOperation(
+            createUpdateOperation(connector, { label: undefined }),
+            'Remove connector label'
+          );
         }
+        return;
+      }
 
-        state.currentDiagram.elements.push(duplicatedElement);
-        state.currentDiagram.metadata.updatedAt = now;
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+      const newOffset = Math.min(Math.max(offset ?? label?.offset ?? DEFAULT_LABEL_OFFSET, 0), 1);
+      if (label?.text === trimmed && label.offset === newOffset) {
+        return;
+      }
 
-        // Update history present
-        state.history.present.elements = [...state.currentDiagram.elements];
-        state.history.present.timestamp = now;
+      executeOperation(
+        createUpdateOperation(connector, {
+          label: { ...DEFAULT_LABEL_STYLE, ...label, text: trimmed, offset: newOffset },
+        }),
+        label ? 'Edit connector label' : 'Label connector'
+      );
+    },
+
+    groupElements: (elementIds, withinGroupId = null) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram) {
+        return null;
+      }
+
+      // Elements already in a group are grouped together with the rest of their group
+      const memberIds = withGroupMembers(currentDiagram.elements, elementIds, withinGroupId);
+      const members = currentDiagram.elements.filter(
+        (el) => memberIds.has(el.id) && isInGroup(el, withinGroupId)
+      );
+      const outerGroupIds = new Set(members.map((el) => getOuterGroupId(el, withinGroupId)));
+      const [onlyGroupId] = outerGroupIds;
+      if (members.length < 2 || (outerGroupIds.size === 1 && onlyGroupId !== undefined)) {
+        return null;
+      }
+
+      const groupId = uuidv4();
+      const memberIdSet = new Set(members.map((el) => el.id));
+      // Members are drawn next to each other, at the level of the topmost one
+      const zIndices = getRestackedZIndices(
+        stackTogether(sortByZIndex(currentDiagram.elements), memberIdSet)
+      );
+
+      const operations = currentDiagram.elements.flatMap((el) => {
+        const zIndex = zIndices.get(el.id);
+        const changes: Partial<DiagramElement> = {
+          ...(memberIdSet.has(el.id) && {
+            groupIds: addGroupId(el.groupIds ?? [], groupId, withinGroupId),
+          }),
+          ...(zIndex !== undefined && { zIndex }),
+        };
+        return Object.keys(changes).length > 0 ? [createUpdateOperation(el, changes)] : [];
       });
 
-      return newId;
+      const description = `Group ${describeElements(members)}`;
+      executeOperation({ type: 'batch', operations, description }, description);
+      return groupId;
     },
 
-    duplicateElements: (elementIds) => {
-      const duplicatedIds: ID[] = [];
+    ungroupElements: (elementIds, withinGroupId = null) => {
+      const { currentDiagram, executeOperation } = get();
+      if (!currentDiagram) {
+        return;
+      }
 
-      elementIds.forEach((elementId) => {
-        const newId = get().duplicateElement(elementId);
-        if (newId) {
-          duplicatedIds.push(newId);
-        }
-      });
+      const idSet = new Set(elementIds);
+      const groupIds = new Set(
+        currentDiagram.elements.flatMap((el) =>
+          idSet.has(el.id) ? (getOuterGroupId(el, withinGroupId) ?? []) : []
+        )
+      );
+
+      const operations = createGroupRemovals(currentDiagram.elements, groupIds);
+      const [firstOperation] = operations;
+      if (!firstOperation) {
+        return;
+      }
+
+      const description = groupIds.size === 1 ? 'Ungroup' : `Ungroup ${groupIds.size} groups`;
+      executeOperation(
+        operations.length === 1 ? firstOperation : { type: 'batch', operations, description },
+        description
+      );
+    },
+
+    bringForward: (elementIds) => {
+      executeReorder(get(), elementIds, 'forward');
+    },
+
+    sendBackward: (elementIds) => {
+      executeReorder(get(), elementIds, 'backward');
+    },
+
+    bringToFront: (elementIds) => {
+      executeReorder(get(), elementIds, 'front');
+    },
+
+    sendToBack: (elementIds) => {
+      executeReorder(get(), elementIds, 'back');
+    },
+
+    lockElements: (elementIds) => {
+      executeFlagChange(get(), elementIds, 'locked', true, 'Lock');
+    },
+
+    unlockElements: (elementIds) => {
+      executeFlagChange(get(), elementIds, 'locked', false, 'Unlock');
+    },
+
+    hideElements: (elementIds) => {
+      executeFlagChange(get(), elementIds, 'visible', false, 'Hide');
+    },
+
+    showElements: (elementIds) => {
+      executeFlagChange(get(), elementIds, 'visible', true, 'Show');
+    },
+
+    alignElements: (elementIds, alignment) => {
+      const { currentDiagram } = get();
+      if (currentDiagram) {
+        executeTransform(
+          get(),
+          getAlignTransforms(currentDiagram.elements, elementIds, alignment),
+          (elements) => `Align ${elements} ${alignment}`
+        );
+      }
+    },
 
-      return duplicatedIds;
+    distributeElements: (elementIds, direction) => {
+      const { currentDiagram } = get();
+      if (currentDiagram) {
+        executeTransform(
+          get(),
+          getDistributeTransforms(currentDiagram.elements, elementIds, direction),
+          (elements) => `Distribute ${elements} ${direction}ly`
+        );
+      }
+    },
+
+    matchElementSizes: (elementIds, dimension) => {
+      const { currentDiagram } = get();
+      if (currentDiagram) {
+        executeTransform(
+          get(),
+          getMatchSizeTransforms(currentDiagram.elements, elementIds, dimension),
+          (elements) => `Match ${dimension} of ${elements}`
+        );
+      }
     },
 
-    // Viewport operations
+    duplicateElement: (elementId) => {
+      return executeDuplicate(get(), [elementId]).get(elementId) ?? null;
+    },
+
+    duplicateElements: (elementIds) => {
+      return [...executeDuplicate(get(), elementIds).values()];
+    },
+
+    // Viewport operations (navigation is not recorded in history)
     setViewport: (viewportChanges) => {
       set((state) => {
         if (!state.currentDiagram) {
           return;
         }
 
-        Object.assign(state.currentDiagram.viewport, viewportChanges);
+        const { viewport } = state.currentDiagram;
+        Object.assign(viewport, viewportChanges);
+        viewport.visibleArea = getVisibleArea(viewport);
 
-        const now = Date.now();
-        state.currentDiagram.metadata.updatedAt = now;
+        state.currentDiagram.metadata.updatedAt = Date.now();
         state.isDirty = true;
-
-        // Update history present viewport
-        state.history.present.viewport = { ...state.currentDiagram.viewport };
-        state.history.present.timestamp = now;
       });
     },
 
@@ -436,13 +1019,8 @@ export const useDiagramStore = create<DiagramStore>()(
 
         state.currentDiagram.viewport = { ...DEFAULT_VIEWPORT };
 
-        const now = Date.now();
-        state.currentDiagram.metadata.updatedAt = now;
+        state.currentDiagram.metadata.updatedAt = Date.now();
         state.isDirty = true;
-
-        // Update history present viewport
-        state.history.present.viewport = { ...state.currentDiagram.viewport };
-        state.history.present.timestamp = now;
       });
     },
 
@@ -484,41 +1062,35 @@ export const useDiagramStore = create<DiagramStore>()(
         return;
       }
 
-      // Calculate bounds of all elements
-      let minX = Infinity,
-        minY = Infinity,
-        maxX = -Infinity,
-        maxY = -Infinity;
-
-      state.currentDiagram.elements.forEach((element) => {
-        const { position, size } = element;
-        minX = Math.min(minX, position.x);
-        minY = Math.min(minY, position.y);
-        maxX = Math.max(maxX, position.x + size.width);
-        maxY = Math.max(maxY, position.y + size.height);
-      });
-
-      const elementsBounds = {
-        width: maxX - minX,
-        height: maxY - minY,
-      };
+      // Bounds of all elements are kept up to date by the spatial index; hidden elements
+      // do not count
+      const { elements } = state.currentDiagram;
+      const shown = elements.filter((el) => el.visible !== false);
+      const bounds =
+        shown.length === elements.length
+          ? elementIndex.getBounds()
+          : shown.length > 0 && getPointsBounds(shown.flatMap(getElementCorners));
+      if (!bounds) {
+        return;
+      }
 
       const { viewport } = state.currentDiagram;
       const padding = 50; // Add some padding
 
-      const scaleX = (viewport.size.width - padding * 2) / elementsBounds.width;
-      const scaleY = (viewport.size.height - padding * 2) / elementsBounds.height;
-      const scale = Math.min(scaleX, scaleY, viewport.maxZoom);
+      // Single points or lines have no extent along one axis
+      const scaleX = (viewport.size.width - padding * 2) / Math.max(bounds.width, 1);
+      const scaleY = (viewport.size.height - padding * 2) / Math.max(bounds.height, 1);
+      const zoom = Math.max(Math.min(scaleX, scaleY, viewport.maxZoom), viewport.minZoom);
 
-      const centerX = minX + elementsBounds.width / 2;
-      const centerY = minY + elementsBounds.height / 2;
+      const centerX = bounds.x + bounds.width / 2;
+      const centerY = bounds.y + bounds.height / 2;
 
       const { setViewport } = get();
       setViewport({
-        zoom: Math.max(scale, viewport.minZoom),
+        zoom,
         offset: {
-          x: viewport.size.width / 2 - centerX * scale,
-          y: viewport.size.height / 2 - centerY * scale,
+          x: viewport.size.width / 2 - centerX * zoom,
+          y: viewport.size.height / 2 - centerY * zoom,
         },
       });
     },
@@ -540,86 +1112,184 @@ export const useDiagramStore = create<DiagramStore>()(
       });
     },
 
+    // Spatial queries
+    getElementsInArea: (area) => {
+      if (!get().currentDiagram) {
+        return [];
+      }
+      return queryElementIndex(area);
+    },
+
+    getVisibleElements: () => {
+      const { currentDiagram, getElementsInArea } = get();
+      if (!currentDiagram) {
+        return [];
+      }
+      return getElementsInArea(getVisibleArea(currentDiagram.viewport));
+    },
+
     // Undo/Redo operations
-    pushSnapshot: (description) => {
+    executeOperation: (operation, description) => {
       set((state) => {
         if (!state.currentDiagram) {
           return;
         }
 
-        const snapshot: DiagramSnapshot = {
-          elements: [...state.currentDiagram.elements],
-          viewport: { ...state.currentDiagram.viewport },
-          timestamp: Date.now(),
+        const now = Date.now();
+        applyOperation(state.currentDiagram, operation, now);
+        markModified(state, now);
+
+        const entry: HistoryEntry = {
+          operation,
+          timestamp: now,
           ...(description && { description }),
         };
 
-        // Add current present to past
-        state.history.past.push(state.history.present);
+        // Inside a transaction the entry is recorded when the transaction commits
+        if (state.history.transaction) {
+          state.history.transaction.entries.push(entry);
+        } else {
+          pushHistoryEntry(state.history, entry);
+        }
+      });
+
+      syncIndexedElements(get().currentDiagram, getAffectedElementIds(operation));
+    },
+
+    beginTransaction: (description) => {
+      const id = get().history.transaction?.id ?? uuidv4();
 
-        // Limit history size
-        if (state.history.past.length > state.history.maxHistorySize) {
-          state.history.past.shift();
+      set((state) => {
+        if (state.history.transaction) {
+          // Nested transactions become part of the outermost one
+          state.history.transaction.depth += 1;
+          return;
         }
 
-        // Update present
-        state.history.present = snapshot;
+        state.history.transaction = {
+          id,
+          entries: [],
+          depth: 1,
+          ...(description && { description }),
+        };
+      });
 
-        // Clear future
-        state.history.future = [];
+      return id;
+    },
+
+    commitTransaction: () => {
+      set((state) => {
+        const { transaction } = state.history;
+        if (!transaction) {
+          return;
+        }
+
+        if (transaction.depth > 1) {
+          transaction.depth -= 1;
+          return;
+        }
+
+        state.history.transaction = null;
+
+        // Collapse continuous gestures (e.g. the many moves of a drag) into one step
+        const operations = coalesceOperations(transaction.entries.map((entry) => entry.operation));
+        const [firstOperation] = operations;
+        if (!firstOperation) {
+          return;
+        }
+
+        const description = transaction.description ?? transaction.entries[0]?.description;
+        pushHistoryEntry(state.history, {
+          operation:
+            operations.length === 1
+              ? firstOperation
+              : { type: 'batch', operations, ...(description && { description }) },
+          timestamp: Date.now(),
+          ...(description && { description }),
+        });
       });
     },
 
-    undo: () => {
+    cancelTransaction: () => {
+      const affectedIds: ID[] = [];
+
       set((state) => {
-        if (!state.currentDiagram || state.history.past.length === 0) {
+        const { transaction } = state.history;
+        state.history.transaction = null;
+
+        if (!transaction || !state.currentDiagram || transaction.entries.length === 0) {
           return;
         }
 
-        // Move present to future
-        state.history.future.unshift(state.history.present);
+        // Roll back everything applied since the transaction began
+        const now = Date.now();
+        [...transaction.entries].reverse().forEach((entry) => {
+          if (state.currentDiagram) {
+            applyOperation(state.currentDiagram, invertOperation(entry.operation), now);
+            affectedIds.push(...getAffectedElementIds(entry.operation));
+          }
+        });
+        markModified(state, now);
+      });
+
+      syncIndexedElements(get().currentDiagram, affectedIds);
+    },
 
-        // Get last state from past
-        const previousState = state.history.past.pop();
-        if (!previousState) {
+    undo: () => {
+      let affectedIds: ID[] = [];
+
+      set((state) => {
+        // Undo is unavailable while a gesture is still recording
+        if (!state.currentDiagram || state.history.transaction || state.history.past.length === 0) {
           return;
         }
 
-        state.history.present = previousState;
+        const entry = state.history.past.pop();
+        if (!entry) {
+          return;
+        }
 
-        // Apply the previous state
-        state.currentDiagram.elements = [...previousState.elements];
-        state.currentDiagram.viewport = { ...previousState.viewport };
-        state.currentDiagram.metadata.updatedAt = Date.now();
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+        // Apply the inverse of the last operation
+        const now = Date.now();
+        applyOperation(state.currentDiagram, invertOperation(entry.operation), now);
+        markModified(state, now);
+        affectedIds = getAffectedElementIds(entry.operation);
+
+        // Move the entry to the redo stack
+        state.history.future.unshift(entry);
       });
+
+      syncIndexedElements(get().currentDiagram, affectedIds);
     },
 
     redo: () => {
+      let affectedIds: ID[] = [];
+
       set((state) => {
-        if (!state.currentDiagram || state.history.future.length === 0) {
+        if (
+          !state.currentDiagram ||
+          state.history.transaction ||
+          state.history.future.length === 0
+        ) {
           return;
         }
 
-        // Move present to past
-        state.history.past.push(state.history.present);
-
-        // Get next state from future
-        const nextState = state.history.future.shift();
-        if (!nextState) {
+        const entry = state.history.future.shift();
+        if (!entry) {
           return;
         }
 
-        state.history.present = nextState;
+        // Re-apply the operation
+        const now = Date.now();
+        applyOperation(state.currentDiagram, entry.operation, now);
+        markModified(state, now);
+        affectedIds = getAffectedElementIds(entry.operation);
 
-        // Apply the next state
-        state.currentDiagram.elements = [...nextState.elements];
-        state.currentDiagram.viewport = { ...nextState.viewport };
-        state.currentDiagram.metadata.updatedAt = Date.now();
-        state.currentDiagram.version += 1;
-        state.isDirty = true;
+        // Move the entry back to the undo stack
+        state.history.past.push(entry);
       });
+
+      syncIndexedElements(get().currentDiagram, affectedIds);
     },
 
     clearHistory: () => {
@@ -697,18 +1367,26 @@ export const useDiagramStore = create<DiagramStore>()(
 
     // Batch operations
     performBatch: (operations, description) => {
-      const { pushSnapshot } = get();
+      const { beginTransaction, commitTransaction, cancelTransaction } = get();
 
-      // Take snapshot before batch
-      pushSnapshot(description);
+      beginTransaction(description);
+
+      try {
+        // Perform all operations
+        operations();
+      } catch (error) {
+        cancelTransaction();
+        throw error;
+      }
 
-      // Perform all operations
-      operations();
+      // Record everything as a single undo step
+      commitTransaction();
     },
 
     // Reset store
     resetStore: () => {
       set(() => ({ ...initialState }));
+      rebuildElementIndex();
     },
   }))
 );
@@ -731,6 +1409,10 @@ export const diagramSelectors = {
   // Get history info
   canUndo: (state: DiagramStore) => state.history.past.length > 0,
   canRedo: (state: DiagramStore) => state.history.future.length > 0,
+  getUndoDescription: (state: DiagramStore) =>
+    state.history.past[state.history.past.length - 1]?.description,
+  getRedoDescription: (state: DiagramStore) => state.history.future[0]?.description,
+  isInTransaction: (state: DiagramStore) => state.history.transaction !== null,
   getHistoryInfo: (state: DiagramStore) => ({
     pastCount: state.history.past.length,
     futureCount: state.history.future.length,
@@ -5,6 +5,7 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import { enableMapSet } from 'immer';
 import { v4 as uuidv4 } from 'uuid';
 
 import {
@@ -17,10 +18,14 @@ import {
   type Notification,
   type NotificationAction,
   type DiagramElement,
-  DialogType,
-  SidebarTab,
 } from '@/types';
 import { LoadingState as LoadingStates, Tool as Tools } from '@/types/common';
+import { DialogType, SidebarTab } from '@/types/ui';
+import type { Alignment } from '@/lib/alignment';
+import { copyElements, cutElements, pasteClipboard } from '@/lib/clipboard';
+import { autoLayout, type LayoutOptions } from '@/lib/layout';
+
+import { useDiagramStore } from './diagram-store';
 
 /** Actions available on the UI store */
 export interface UIActions {
@@ -46,6 +51,8 @@ export interface UIActions {
   setEditingElement: (elementId: ID | null) => void;
   clearEditingElement: () => void;
   isElementEditing: (elementId: ID) => boolean;
+  enterGroup: (groupId: ID) => void;
+  exitGroup: () => void;
 
   // Multi-selection
   startMultiSelection: (startPoint: Point) => void;
@@ -111,21 +118,71 @@ export interface UIActions {
 
 export type UIStore = UIState & UIActions;
 
+/** Alignments offered in the context menu, with their labels */
+const ALIGNMENTS: [Alignment, string][] = [
+  ['left', 'Left'],
+  ['center', 'Center'],
+  ['right', 'Right'],
+  ['top', 'Top'],
+  ['middle', 'Middle'],
+  ['bottom', 'Bottom'],
+];
+
+/** Layouts offered in the context menu, with their IDs and labels */
+const LAYOUTS: [string, string, LayoutOptions][] = [
+  ['top-down', 'Top-Down', { algorithm: 'layered', direction: 'top-down' }],
+  ['left-right', 'Left-Right', { algorithm: 'layered', direction: 'left-right' }],
+  ['force', 'Force-Directed', { algorithm: 'force' }],
+  ['grid', 'Grid', { algorithm: 'grid' }],
+];
+
 /** Default context menu items */
 const DEFAULT_CONTEXT_MENU_ITEMS: ContextMenuItem[] = [
+  {
+    id: 'cut',
+    label: 'Cut',
+    icon: 'scissors',
+    shortcut: 'Ctrl+X',
+    action: () =>
+      runAsyncCommand('Cut failed', async () => {
+        if (await cutElements(getSelection())) {
+          useUIStore.getState().deselectAllElements();
+        }
+      }),
+  },
   {
     id: 'copy',
     label: 'Copy',
     icon: 'copy',
     shortcut: 'Ctrl+C',
-    action: () => {},
+    action: () => runAsyncCommand('Copy failed', () => copyElements(getSelection())),
   },
   {
     id: 'paste',
     label: 'Paste',
     icon: 'clipboard',
     shortcut: 'Ctrl+V',
-    action: () => {},
+    action: () =>
+      runAsyncCommand('Paste failed', async () => {
+        // The menu position is in page coordinates, not canvas coordinates, so copies
+        // are offset from their originals and text lands in the middle of the view
+        const pastedIds = await pasteClipboard();
+        if (pastedIds.length > 0) {
+          useUIStore.getState().selectElements(pastedIds);
+        }
+      }),
+  },
+  {
+    id: 'duplicate',
+    label: 'Duplicate',
+    icon: 'copy-plus',
+    shortcut: 'Ctrl+D',
+    action: () => {
+      const duplicatedIds = useDiagramStore.getState().duplicateElements(getSelection());
+      if (duplicatedIds.length > 0) {
+        useUIStore.getState().selectElements(duplicatedIds);
+      }
+    },
   },
   {
     id: 'separator-1',
@@ -139,14 +196,165 @@ const DEFAULT_CONTEXT_MENU_ITEMS: ContextMenuItem[] = [
     shortcut: 'Delete',
     action: () => {},
   },
+  {
+    id: 'separator-2',
+    label: '',
+    separator: true,
+  },
+  {
+    id: 'bring-forward',
+    label: 'Bring Forward',
+    icon: 'arrow-up',
+    shortcut: 'Ctrl+]',
+    action: () => useDiagramStore.getState().bringForward(getSelection()),
+  },
+  {
+    id: 'send-backward',
+    label: 'Send Backward',
+    icon: 'arrow-down',
+    shortcut: 'Ctrl+[',
+    action: () => useDiagramStore.getState().sendBackward(getSelection()),
+  },
+  {
+    id: 'bring-to-front',
+    label: 'Bring to Front',
+    icon: 'bring-to-front',
+    shortcut: 'Ctrl+Shift+]',
+    action: () => useDiagramStore.getState().bringToFront(getSelection()),
+  },
+  {
+    id: 'send-to-back',
+    label: 'Send to Back',
+    icon: 'send-to-back',
+    shortcut: 'Ctrl+Shift+[',
+    action: () => useDiagramStore.getState().sendToBack(getSelection()),
+  },
+  {
+    id: 'separator-3',
+    label: '',
+    separator: true,
+  },
+  {
+    id: 'align',
+    label: 'Align',
+    icon: 'align-left',
+    submenu: ALIGNMENTS.map(([alignment, label]) => ({
+      id: `align-${alignment}`,
+      label,
+      action: () => useDiagramStore.getState().alignElements(getSelection(), alignment),
+    })),
+  },
+  {
+    id: 'distribute',
+    label: 'Distribute',
+    icon: 'distribute-horizontal',
+    submenu: [
+      {
+        id: 'distribute-horizontal',
+        label: 'Horizontally',
+        action: () => useDiagramStore.getState().distributeElements(getSelection(), 'horizontal'),
+      },
+      {
+        id: 'distribute-vertical',
+        label: 'Vertically',
+        action: () => useDiagramStore.getState().distributeElements(getSelection(), 'vertical'),
+      },
+    ],
+  },
+  {
+    id: 'match-size',
+    label: 'Match Size',
+    icon: 'maximize',
+    submenu: [
+      {
+        id: 'match-width',
+        label: 'Width',
+        action: () => useDiagramStore.getState().matchElementSizes(getSelection(), 'width'),
+      },
+      {
+        id: 'match-height',
+        label: 'Height',
+        action: () => useDiagramStore.getState().matchElementSizes(getSelection(), 'height'),
+      },
+    ],
+  },
+  {
+    id: 'auto-layout',
+    label: 'Auto Layout',
+    icon: 'network',
+    submenu: LAYOUTS.map(([id, label, options]) => ({
+      id: `layout-${id}`,
+      label,
+      action: () => {
+        // A selection of several elements is laid out on its own, otherwise the whole diagram
+        const selection = getSelection();
+        runAsyncCommand('Auto layout failed', () =>
+          autoLayout(options, selection.length > 1 ? selection : undefined)
+        );
+      },
+    })),
+  },
+  {
+    id: 'separator-4',
+    label: '',
+    separator: true,
+  },
+  {
+    id: 'lock',
+    label: 'Lock',
+    icon: 'lock',
+    action: () => useDiagramStore.getState().lockElements(getSelection()),
+  },
+  {
+    id: 'unlock',
+    label: 'Unlock',
+    icon: 'unlock',
+    action: () => useDiagramStore.getState().unlockElements(getSelection()),
+  },
+  {
+    id: 'hide',
+    label: 'Hide',
+    icon: 'eye-off',
+    action: () => {
+      useDiagramStore.getState().hideElements(getSelection());
+      // Hidden elements cannot stay selected
+      useUIStore.getState().deselectAllElements();
+    },
+  },
+  {
+    id: 'show-all',
+    label: 'Show Hidden Elements',
+    icon: 'eye',
+    action: () => useDiagramStore.getState().showElements(),
+  },
 ];
 
+/**
+ * Selected element IDs, read when a menu item runs
+ */
+function getSelection(): ID[] {
+  return useUIStore.getState().getSelectedElementIds();
+}
+
+/**
+ * Run an asynchronous menu command, reporting failures such as a denied clipboard
+ * permission as an error notification
+ */
+function runAsyncCommand(title: string, command: () => Promise<unknown>) {
+  command().catch((error: unknown) => {
+    useUIStore
+      .getState()
+      .addNotification('error', title, error instanceof Error ? error.message : String(error));
+  });
+}
+
 /** Initial state for the UI store */
 const initialState: UIState = {
   currentTool: Tools.SELECT,
   selectedElements: new Set<ID>(),
   hoveredElement: null,
   editingElement: null,
+  editingGroup: null,
   multiSelection: {
     active: false,
     startPoint: { x: 0, y: 0 },
@@ -179,6 +387,9 @@ const initialState: UIState = {
   },
 };
 
+// Selection state is kept in Sets, which Immer only drafts with this plugin
+enableMapSet();
+
 /**
  * Create UI store with Zustand and Immer
  */
@@ -295,6 +506,18 @@ export const useUIStore = create<UIStore>()(
       return get().editingElement === elementId;
     },
 
+    enterGroup: (groupId) => {
+      set((state) => {
+        state.editingGroup = groupId;
+      });
+    },
+
+    exitGroup: () => {
+      set((state) => {
+        state.editingGroup = null;
+      });
+    },
+
     // Multi-selection actions
     startMultiSelection: (startPoint) => {
       set((state) => {
@@ -558,7 +781,9 @@ export const uiSelectors = {
   getCurrentTool: (state: UIStore) => state.currentTool,
   isSelectTool: (state: UIStore) => state.currentTool === Tools.SELECT,
   isDrawingTool: (state: UIStore) =>
-    state.currentTool === Tools.STICKY_NOTE || state.currentTool === Tools.CONNECTOR,
+    state.currentTool !== Tools.SELECT &&
+    state.currentTool !== Tools.PAN &&
+    state.currentTool !== Tools.ZOOM,
 
   // Selection selectors
   getSelectedElements: (state: UIStore) => state.selectedElements,
@@ -573,6 +798,7 @@ export const uiSelectors = {
   // Editing selectors
   getEditingElement: (state: UIStore) => state.editingElement,
   isEditing: (state: UIStore) => state.editingElement !== null,
+  getEditingGroup: (state: UIStore) => state.editingGroup,
 
   // Multi-selection selectors
   getMultiSelection: (state: UIStore) => state.multiSelection,
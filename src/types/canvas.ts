@@ -2,8 +2,8 @@
  * Canvas-related type definitions for viewport, interactions, and rendering
  */
 
-import type { Point, Rectangle, Size } from './common';
-import type { DiagramElement } from './elements';
+import type { Point, Rectangle, Size, Tool } from './common';
+import type { DiagramElement, SelectionHandle } from './elements';
 
 /** Canvas viewport state */
 export interface Viewport {
@@ -33,6 +33,7 @@ export enum InteractionMode {
   PANNING = 'panning',
   SELECTING = 'selecting',
   RESIZING = 'resizing',
+  ROTATING = 'rotating',
   CONNECTING = 'connecting',
 }
 
@@ -71,7 +72,35 @@ export interface DragState {
   currentPosition: WorldCoordinates;
   delta: Point;
   target?: DiagramElement;
-  mode: 'move' | 'resize' | 'pan' | 'select';
+  /** Selection handle being dragged */
+  handle?: string;
+  mode: 'move' | 'resize' | 'rotate' | 'pan' | 'select' | 'connect' | 'create' | 'draw';
+}
+
+/** Element being drawn with a creation tool or the pen */
+export interface DrawingPreview {
+  tool: Tool;
+  /** Area the new element will fill */
+  bounds: Rectangle;
+  /** Points of a pen stroke */
+  points?: WorldCoordinates[];
+}
+
+/** Connection point shown while drawing a connector */
+export interface ConnectionHint {
+  position: WorldCoordinates;
+  /** Whether the connector being drawn may attach here */
+  valid: boolean;
+  /** Point the connector attaches to */
+  active: boolean;
+}
+
+/** Line shown where a moved or resized selection lines up with other elements */
+export interface SnapGuide {
+  /** Shared edge or center, or one of several equal gaps between elements */
+  kind: 'edge' | 'center' | 'spacing';
+  start: WorldCoordinates;
+  end: WorldCoordinates;
 }
 
 /** Canvas rendering context */
@@ -83,12 +112,25 @@ export interface CanvasRenderContext {
   selectedElements: Set<string>;
   hoveredElement?: DiagramElement;
   devicePixelRatio: number;
+  /** Selection handles in world coordinates */
+  handles?: SelectionHandle[];
+  /** Rubber band selection rectangle in world coordinates */
+  selectionBox?: Rectangle;
+  /** Connection points shown while drawing a connector */
+  connectionHints?: ConnectionHint[];
+  /** Connector being drawn, from its start to the pointer or its target */
+  connectionPreview?: { start: WorldCoordinates; end: WorldCoordinates };
+  /** Element being drawn with a creation tool or the pen */
+  drawingPreview?: DrawingPreview;
+  /** Alignment and spacing guides of the selection being moved or resized */
+  snapGuides?: SnapGuide[];
 }
 
 /** Render layer types for z-index management */
 export enum RenderLayer {
   BACKGROUND = 0,
   GRID = 10,
+  FRAMES = 15,
   CONNECTORS = 20,
   ELEMENTS = 30,
   SELECTION = 40,
@@ -51,6 +51,12 @@ export enum Tool {
   SELECT = 'select',
   STICKY_NOTE = 'sticky_note',
   CONNECTOR = 'connector',
+  RECTANGLE = 'rectangle',
+  ELLIPSE = 'ellipse',
+  DIAMOND = 'diamond',
+  TEXT = 'text',
+  FRAME = 'frame',
+  PEN = 'pen',
   PAN = 'pan',
   ZOOM = 'zoom',
 }
@@ -60,5 +66,6 @@ export interface ConnectionPoint {
   id: ID;
   elementId: ID;
   position: Point;
-  type: 'input' | 'output';
+  /** Input points only take connector ends and output points only connector starts */
+  type: 'input' | 'output' | 'both';
 }
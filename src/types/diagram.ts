@@ -47,10 +47,11 @@ export interface DiagramState {
   isDirty: boolean;
   /** Undo/redo history */
   history: {
-    past: DiagramSnapshot[];
-    present: DiagramSnapshot;
-    future: DiagramSnapshot[];
+    past: HistoryEntry[];
+    future: HistoryEntry[];
     maxHistorySize: number;
+    /** Open transaction collecting operations into a single entry */
+    transaction: HistoryTransaction | null;
   };
   /** Recently opened diagrams */
   recentDiagrams: DiagramInfo[];
@@ -65,14 +66,23 @@ export interface DiagramInfo {
   fileSize?: number;
 }
 
-/** Diagram snapshot for undo/redo */
-export interface DiagramSnapshot {
-  elements: DiagramElement[];
-  viewport: Viewport;
+/** Single undo/redo step recorded as an invertible operation */
+export interface HistoryEntry {
+  operation: DiagramOperation;
   timestamp: Timestamp;
   description?: string;
 }
 
+/** Operations collected between beginTransaction and commitTransaction */
+export interface HistoryTransaction {
+  /** Identifies the transaction, e.g. for work that spans several animation frames */
+  id: ID;
+  description?: string;
+  entries: HistoryEntry[];
+  /** Nesting depth; only the outermost commit records an entry */
+  depth: number;
+}
+
 /** Diagram operations for undo/redo system */
 export type DiagramOperation =
   | AddElementOperation
@@ -80,11 +90,14 @@ export type DiagramOperation =
   | DeleteElementOperation
   | MoveElementsOperation
   | ViewportChangeOperation
+  | UpdateDiagramOperation
   | BatchOperation;
 
 export interface AddElementOperation {
   type: 'add_element';
   element: DiagramElement;
+  /** Position in the elements array (appended when omitted) */
+  index?: number;
 }
 
 export interface UpdateElementOperation {
@@ -97,6 +110,8 @@ export interface UpdateElementOperation {
 export interface DeleteElementOperation {
   type: 'delete_element';
   element: DiagramElement;
+  /** Position in the elements array, so the inverse restores the original order */
+  index?: number;
 }
 
 export interface MoveElementsOperation {
@@ -111,6 +126,18 @@ export interface ViewportChangeOperation {
   newViewport: Viewport;
 }
 
+/** Diagram-level fields changed by an update; undefined removes the field */
+export interface DiagramPropertyChanges {
+  name?: string;
+  description?: string | undefined;
+}
+
+export interface UpdateDiagramOperation {
+  type: 'update_diagram';
+  changes: DiagramPropertyChanges;
+  previousState: DiagramPropertyChanges;
+}
+
 export interface BatchOperation {
   type: 'batch';
   operations: DiagramOperation[];
@@ -119,7 +146,11 @@ export interface BatchOperation {
 
 /** File format versions */
 export enum FileFormatVersion {
+  /** Original specification format: a bare diagram with flat element fields */
+  V0 = '0.1.0',
   V1 = '1.0.0',
+  /** Connector labels are placed by their offset along the path */
+  V1_1 = '1.1.0',
 }
 
 /** Exported diagram file structure */
@@ -13,6 +13,8 @@ export interface BaseElement {
   rotation?: number;
   locked?: boolean;
   visible?: boolean;
+  /** Groups the element belongs to, innermost first */
+  groupIds?: ID[] | undefined;
   zIndex: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -22,6 +24,10 @@ export interface BaseElement {
 export enum ElementType {
   STICKY_NOTE = 'sticky_note',
   CONNECTOR = 'connector',
+  SHAPE = 'shape',
+  TEXT = 'text',
+  FRAME = 'frame',
+  FREEHAND = 'freehand',
 }
 
 /** Sticky note element with text content and customization options */
@@ -47,6 +53,74 @@ export interface StickyNote extends BaseElement {
   connectionPoints: ConnectionPoint[];
 }
 
+/** Outline of a shape element */
+export type ShapeKind = 'rectangle' | 'ellipse' | 'diamond';
+
+/** Geometric shape with optional text inside */
+export interface Shape extends BaseElement {
+  type: ElementType.SHAPE;
+  shape: ShapeKind;
+  content: {
+    text: string;
+    fontSize: number;
+    fontFamily: string;
+    textAlign: 'left' | 'center' | 'right';
+    verticalAlign: 'top' | 'middle' | 'bottom';
+  };
+  style: {
+    fillColor: Color;
+    strokeColor: Color;
+    strokeWidth: number;
+    strokeStyle?: 'solid' | 'dashed' | 'dotted';
+    textColor: Color;
+    opacity?: number;
+  };
+  connectionPoints: ConnectionPoint[];
+}
+
+/** Standalone text without a background shape */
+export interface TextElement extends BaseElement {
+  type: ElementType.TEXT;
+  content: {
+    text: string;
+    fontSize: number;
+    fontFamily: string;
+    fontWeight?: 'normal' | 'bold';
+    textAlign: 'left' | 'center' | 'right';
+  };
+  style: {
+    textColor: Color;
+    backgroundColor?: Color;
+    opacity?: number;
+  };
+}
+
+/** Titled area that groups the elements placed in it */
+export interface Frame extends BaseElement {
+  type: ElementType.FRAME;
+  title: string;
+  /** Elements in the frame; they move, duplicate and delete with it */
+  childIds: ID[];
+  style: {
+    backgroundColor: Color;
+    borderColor: Color;
+    borderWidth: number;
+    opacity?: number;
+  };
+}
+
+/** Freehand pen stroke */
+export interface FreehandStroke extends BaseElement {
+  type: ElementType.FREEHAND;
+  /** Stroke points relative to the element position */
+  points: Point[];
+  style: {
+    strokeColor: Color;
+    strokeWidth: number;
+    opacity?: number;
+  };
+}
+
 /** Connector element that links other elements */
 export interface Connector extends BaseElement {
   type: ElementType.CONNECTOR;
@@ -60,24 +134,39 @@ export interface Connector extends BaseElement {
     connectionPointId: ID;
     position: Point;
   };
-  points: Point[]; // Control points for bezier curves
+  points: Point[]; // Control points for curves, waypoints for orthogonal routes
+  /** Path layout between the endpoints; without it the points' count decides */
+  routing?: ConnectorRouting;
   style: {
     strokeColor: Color;
     strokeWidth: number;
     strokeStyle: 'solid' | 'dashed' | 'dotted';
     opacity?: number;
+    /** Radius of the corners of orthogonal routes */
+    cornerRadius?: number;
     arrowStart?: ArrowStyle;
     arrowEnd?: ArrowStyle;
   };
-  label?: {
-    text: string;
-    position: Point;
-    fontSize: number;
-    textColor: Color;
-    backgroundColor?: Color;
-  };
+  /** Removed by setting it to undefined */
+  label?: ConnectorLabel | undefined;
+}
+
+/** Connection point a connector is attached to */
+export type ConnectionTarget = Pick<Connector['startElement'], 'elementId' | 'connectionPointId'>;
+
+/** Text shown along a connector */
+export interface ConnectorLabel {
+  text: string;
+  /** Position along the path, from 0 at the start to 1 at the end */
+  offset: number;
+  fontSize: number;
+  textColor: Color;
+  backgroundColor?: Color;
 }
 
+/** How a connector's path between its endpoints is laid out */
+export type ConnectorRouting = 'straight' | 'orthogonal' | 'curved';
+
 /** Arrow style configuration */
 export interface ArrowStyle {
   type: 'triangle' | 'circle' | 'diamond' | 'none';
@@ -86,15 +175,20 @@ export interface ArrowStyle {
 }
 
 /** Union type for all diagram elements */
-export type DiagramElement = StickyNote | Connector;
+export type DiagramElement = StickyNote | Connector | Shape | TextElement | Frame | FreehandStroke;
 
-/** Element creation parameters (without computed fields) */
-export type CreateElementParams<T extends DiagramElement> = Omit<
-  T,
-  'id' | 'createdAt' | 'updatedAt' | 'zIndex'
-> & {
-  id?: ID;
-};
+/** Elements that connectors can attach to */
+export type ConnectableElement = StickyNote | Shape;
+
+/**
+ * Element creation parameters (without computed fields)
+ * Distributes over unions, so CreateElementParams<DiagramElement> accepts any element type.
+ */
+export type CreateElementParams<T extends DiagramElement> = T extends DiagramElement
+  ? Omit<T, 'id' | 'createdAt' | 'updatedAt' | 'zIndex'> & {
+      id?: ID;
+    }
+  : never;
 
 /** Element update parameters (partial updates) */
 export type UpdateElementParams<T extends DiagramElement> = Partial<
@@ -112,6 +206,13 @@ export interface ElementSelection {
   handles?: SelectionHandle[];
 }
 
+/** New geometry of an element after it was resized or rotated */
+export interface ElementTransform {
+  position: Point;
+  size: Size;
+  rotation?: number;
+}
+
 /** Selection handle for resizing/rotating elements */
 export interface SelectionHandle {
   id: string;
@@ -34,7 +34,7 @@ export type {
 
 export type { Viewport, CanvasPointerEvent, CanvasKeyboardEvent, InteractionMode } from './canvas';
 
-export type { Diagram, DiagramState, DiagramSnapshot, DiagramOperation } from './diagram';
+export type { Diagram, DiagramState, HistoryEntry, DiagramOperation } from './diagram';
 
 export type { UIState, DialogType, SidebarTab, Notification, UserPreferences } from './ui';
 
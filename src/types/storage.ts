@@ -2,7 +2,7 @@
  * Storage adapter interface and related types for diagram persistence
  */
 
-import type { AppError, LoadingState } from './common';
+import type { AppError, LoadingState, Timestamp } from './common';
 import type { Diagram, DiagramInfo } from './diagram';
 
 /** Abstract storage adapter interface */
@@ -15,6 +15,8 @@ export interface StorageAdapter {
   readonly canWrite: boolean;
   /** Whether the adapter supports listing files */
   readonly canList: boolean;
+  /** Whether reads and writes may need a user gesture, e.g. to show a file picker */
+  readonly needsUserGesture: boolean;
 
   /**
    * Save a diagram to storage
@@ -65,6 +67,8 @@ export interface StorageAdapter {
 export interface SaveOptions {
   /** Whether to create a backup before saving */
   backup?: boolean;
+  /** Maximum number of backups to keep per diagram (oldest are removed first) */
+  maxBackups?: number;
   /** Custom file name (if supported by adapter) */
   filename?: string;
   /** Whether to compress the file */
@@ -101,6 +105,16 @@ export interface LoadResult {
   error?: AppError;
 }
 
+/** A stored backup of an earlier version of a diagram */
+export interface DiagramBackupInfo {
+  diagramId: string;
+  /** Identifier to pass as LoadOptions.version */
+  version: string;
+  /** When the backed up version was saved */
+  savedAt: Timestamp;
+  size?: number;
+}
+
 /** Result of delete operations */
 export interface DeleteResult {
   success: boolean;
@@ -149,6 +163,12 @@ export interface FileStorageOptions {
   useCompression?: boolean;
 }
 
+/** IndexedDB storage adapter specific options */
+export interface IndexedDBStorageOptions {
+  /** Name of the IndexedDB database */
+  databaseName?: string;
+}
+
 /** Cloud storage adapter specific options */
 export interface CloudStorageOptions {
   /** API endpoint URL */
@@ -205,3 +225,17 @@ export interface StorageOperationStatus {
   message?: string;
   error?: AppError;
 }
+
+/** Error codes reported by storage adapters in their result objects */
+export enum StorageErrorCode {
+  NOT_FOUND = 'STORAGE_NOT_FOUND',
+  UNAVAILABLE = 'STORAGE_UNAVAILABLE',
+  READ_FAILED = 'STORAGE_READ_FAILED',
+  WRITE_FAILED = 'STORAGE_WRITE_FAILED',
+  DELETE_FAILED = 'STORAGE_DELETE_FAILED',
+  LIST_FAILED = 'STORAGE_LIST_FAILED',
+  CANCELLED = 'STORAGE_CANCELLED',
+  FILE_TOO_LARGE = 'STORAGE_FILE_TOO_LARGE',
+  INVALID_EXTENSION = 'STORAGE_INVALID_EXTENSION',
+  INVALID_FORMAT = 'STORAGE_INVALID_FORMAT',
+}
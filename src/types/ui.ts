@@ -15,6 +15,8 @@ export interface UIState {
   hoveredElement: ID | null;
   /** Element being edited */
   editingElement: ID | null;
+  /** Group entered to select elements inside it */
+  editingGroup: ID | null;
   /** Multi-selection state */
   multiSelection: {
     active: boolean;
@@ -106,6 +108,16 @@ export interface NotificationAction {
   style?: 'primary' | 'secondary';
 }
 
+/** Data passed with DialogType.CONFIRM */
+export interface ConfirmDialogData {
+  title: string;
+  message: string;
+  /** Additional lines shown below the message */
+  details?: string[];
+  /** Buttons in display order; actions close the dialog themselves when done */
+  actions: NotificationAction[];
+}
+
 /** Keyboard shortcut configuration */
 export interface KeyboardShortcut {
   key: string;